@@ -0,0 +1,347 @@
+import { promises as fs } from 'fs';
+import { parseStoragePath } from '../src/storage-paths';
+
+// Scan captured emulator output for the two symptoms of the misroute:
+//   - `create before snapshot:` dumps (the debug line patched into the SDK's
+//     createBeforeSnapshot) whose event is actually a storage object
+//   - `Cannot determine payload type, datacontenttype is ...` errors
+// and tie them back to upload IDs and test iterations.
+//
+//   firebase emulators:start ... 2>&1 | tee emulator.log
+//   cd functions && npx ts-node scripts/analyzeEmulatorLog.ts ../emulator.log
+//   cat emulator.log | npx ts-node scripts/analyzeEmulatorLog.ts --summary ../race-results/summary.json
+
+export const SNAPSHOT_MARKER = 'create before snapshot:';
+const PAYLOAD_ERROR_PATTERN =
+  /Cannot determine payload type, datacontenttype is (.*?), failing out/;
+// raceTest progress lines, present when runner output is captured alongside.
+const ITERATION_MARKER_PATTERN = /🔄 Iteration (\d+)\//;
+// Emulator and firebase-debug.log line decorations: "[debug] [ts] ", ">  ".
+const LINE_PREFIX_PATTERN = /^(?:\[[^\]]*\]\s*)*(?:> {1,2})?/;
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?/;
+// A dump that never closes its braces (truncated capture) is cut off here.
+const MAX_DUMP_LINES = 400;
+
+interface AnalyzeOptions {
+  file?: string;
+  summary?: string;
+}
+
+export interface SnapshotDump {
+  line: number;
+  timestamp: string | null;
+  eventId: string | null;
+  eventType: string | null;
+  source: string | null;
+  datacontenttype: string | null;
+  objectName: string | null;
+  uploadId: string | null;
+  iteration: number | null;
+  correlationId: string | null;
+  storagePayload: boolean;
+}
+
+export interface PayloadTypeError {
+  line: number;
+  timestamp: string | null;
+  datacontenttype: string;
+  // Nearest preceding snapshot dump: createBeforeSnapshot logs the event
+  // before it throws, so under low concurrency this is the failing event.
+  dumpLine: number | null;
+  objectName: string | null;
+  uploadId: string | null;
+  iteration: number | null;
+}
+
+export interface LogAnalysis {
+  linesScanned: number;
+  counts: {
+    snapshotDumps: number;
+    storageSnapshotDumps: number;
+    payloadTypeErrors: number;
+    byDataContentType: Record<string, number>;
+  };
+  firstOccurrence: {
+    storageSnapshotDump: { line: number; timestamp: string | null; excerpt: string } | null;
+    payloadTypeError: { line: number; timestamp: string | null; excerpt: string } | null;
+  };
+  objects: Array<{ objectName: string; dumps: number; errors: number }>;
+  uploads: Array<{
+    uploadId: string;
+    iterations: number[];
+    dumps: number;
+    errors: number;
+  }>;
+  iterations: Array<{ iteration: number; dumps: number; errors: number }>;
+  unattributedErrors: number;
+  storageDumps: SnapshotDump[];
+  payloadTypeErrors: PayloadTypeError[];
+}
+
+function parseArgs(argv: string[]): AnalyzeOptions {
+  const opts: AnalyzeOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const eq = argv[i].indexOf('=');
+    const flag = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+
+    switch (flag) {
+      case '--summary':
+        opts.summary = value();
+        break;
+      default:
+        if (flag.startsWith('--') || opts.file) {
+          throw new Error(`Unknown arg: ${argv[i]}`);
+        }
+        opts.file = argv[i];
+    }
+  }
+  return opts;
+}
+
+function stripPrefix(line: string): string {
+  return line.replace(LINE_PREFIX_PATTERN, '');
+}
+
+// Matches `key: 'value'` (util.inspect) and `"key": "value"` (JSON).
+function field(text: string, key: string): string | null {
+  const match = new RegExp(
+    `(?:^|[\\s{,])["']?${key}["']?\\s*:\\s*(['"])((?:\\\\.|(?!\\1).)*)\\1`,
+    'm',
+  ).exec(text);
+  return match ? match[2] : null;
+}
+
+// Net `{` minus `}` outside string literals.
+function braceDepth(text: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\') i++;
+      else if (c === quote) quote = null;
+    } else if (c === "'" || c === '"' || c === '`') {
+      quote = c;
+    } else if (c === '{') {
+      depth++;
+    } else if (c === '}') {
+      depth--;
+    }
+  }
+  return depth;
+}
+
+function toIteration(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isInteger(n) ? n : null;
+}
+
+function parseDump(
+  text: string,
+  line: number,
+  timestamp: string | null,
+  fallbackIteration: number | null,
+): SnapshotDump {
+  const eventType = field(text, 'type');
+  const source = field(text, 'source');
+  const bucket = field(text, 'bucket');
+  const name = field(text, 'name');
+  const storagePayload =
+    (eventType?.startsWith('google.cloud.storage.') ?? false) ||
+    (source?.startsWith('//storage.googleapis.com/') ?? false) ||
+    (bucket !== null && name !== null);
+  const objectName = storagePayload ? name : null;
+  const eventTime = field(text, 'time');
+  const parsed = objectName ? parseStoragePath(objectName) : null;
+
+  return {
+    line,
+    timestamp: timestamp ?? eventTime,
+    eventId: field(text, 'id'),
+    eventType,
+    source,
+    datacontenttype: field(text, 'datacontenttype'),
+    objectName,
+    uploadId:
+      field(text, 'uploadId') ?? (parsed?.ok ? parsed.path.uploadId : null),
+    iteration: toIteration(field(text, 'iteration')) ?? fallbackIteration,
+    correlationId: field(text, 'correlationId'),
+    storagePayload,
+  };
+}
+
+export function analyzeLog(
+  text: string,
+  uploadIterations: Map<string, number> = new Map(),
+): LogAnalysis {
+  const lines = text.split(/\r?\n/);
+  const dumps: SnapshotDump[] = [];
+  const errors: PayloadTypeError[] = [];
+  const excerpts = new Map<number, string>();
+  let markerIteration: number | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const marker = ITERATION_MARKER_PATTERN.exec(raw);
+    if (marker) markerIteration = Number(marker[1]);
+    const timestamp = TIMESTAMP_PATTERN.exec(raw)?.[0] ?? null;
+
+    const markerAt = raw.indexOf(SNAPSHOT_MARKER);
+    if (markerAt !== -1) {
+      const start = i;
+      const body = [raw.slice(markerAt + SNAPSHOT_MARKER.length)];
+      let depth = braceDepth(body[0]);
+      while (depth > 0 && i + 1 < lines.length && i - start < MAX_DUMP_LINES) {
+        const next = stripPrefix(lines[++i]);
+        body.push(next);
+        depth += braceDepth(next);
+      }
+      const dumpText = body.join('\n');
+      const dump = parseDump(dumpText, start + 1, timestamp, markerIteration);
+      dumps.push(dump);
+      excerpts.set(dump.line, `${SNAPSHOT_MARKER}${body.slice(0, 12).join('\n')}`);
+      continue;
+    }
+
+    const error = PAYLOAD_ERROR_PATTERN.exec(raw);
+    if (error) {
+      const previous = dumps.length ? dumps[dumps.length - 1] : null;
+      errors.push({
+        line: i + 1,
+        timestamp,
+        datacontenttype: error[1],
+        dumpLine: previous?.line ?? null,
+        objectName: previous?.objectName ?? null,
+        uploadId: previous?.uploadId ?? null,
+        iteration: previous?.iteration ?? markerIteration,
+      });
+      excerpts.set(i + 1, stripPrefix(raw));
+    }
+  }
+
+  // Runner summaries know every upload's iteration even when the object
+  // metadata did not carry one.
+  const iterationOf = (uploadId: string | null, fallback: number | null) =>
+    (uploadId !== null ? uploadIterations.get(uploadId) : undefined) ?? fallback;
+  for (const item of [...dumps, ...errors]) {
+    item.iteration = iterationOf(item.uploadId, item.iteration);
+  }
+
+  const storageDumps = dumps.filter((d) => d.storagePayload);
+
+  const byDataContentType: Record<string, number> = {};
+  for (const e of errors) {
+    byDataContentType[e.datacontenttype] = (byDataContentType[e.datacontenttype] ?? 0) + 1;
+  }
+
+  const objects = new Map<string, { objectName: string; dumps: number; errors: number }>();
+  const uploads = new Map<
+    string,
+    { uploadId: string; iterations: Set<number>; dumps: number; errors: number }
+  >();
+  const iterations = new Map<number, { iteration: number; dumps: number; errors: number }>();
+  const tally = (
+    item: { objectName: string | null; uploadId: string | null; iteration: number | null },
+    key: 'dumps' | 'errors',
+  ) => {
+    if (item.objectName) {
+      const o = objects.get(item.objectName) ?? { objectName: item.objectName, dumps: 0, errors: 0 };
+      o[key]++;
+      objects.set(item.objectName, o);
+    }
+    if (item.uploadId) {
+      const u = uploads.get(item.uploadId) ?? {
+        uploadId: item.uploadId,
+        iterations: new Set<number>(),
+        dumps: 0,
+        errors: 0,
+      };
+      u[key]++;
+      if (item.iteration !== null) u.iterations.add(item.iteration);
+      uploads.set(item.uploadId, u);
+    }
+    if (item.iteration !== null) {
+      const it = iterations.get(item.iteration) ?? { iteration: item.iteration, dumps: 0, errors: 0 };
+      it[key]++;
+      iterations.set(item.iteration, it);
+    }
+  };
+  storageDumps.forEach((d) => tally(d, 'dumps'));
+  errors.forEach((e) => tally(e, 'errors'));
+
+  const first = (item: { line: number; timestamp: string | null } | undefined) =>
+    item
+      ? { line: item.line, timestamp: item.timestamp, excerpt: excerpts.get(item.line) ?? '' }
+      : null;
+
+  return {
+    linesScanned: lines.length,
+    counts: {
+      snapshotDumps: dumps.length,
+      storageSnapshotDumps: storageDumps.length,
+      payloadTypeErrors: errors.length,
+      byDataContentType,
+    },
+    firstOccurrence: {
+      storageSnapshotDump: first(storageDumps[0]),
+      payloadTypeError: first(errors[0]),
+    },
+    objects: [...objects.values()],
+    uploads: [...uploads.values()].map((u) => ({
+      ...u,
+      iterations: [...u.iterations].sort((a, b) => a - b),
+    })),
+    iterations: [...iterations.values()].sort((a, b) => a.iteration - b.iteration),
+    unattributedErrors: errors.filter((e) => e.uploadId === null).length,
+    storageDumps,
+    payloadTypeErrors: errors,
+  };
+}
+
+// uploadId -> iteration from a raceTest summary.json.
+async function loadUploadIterations(summaryPath: string): Promise<Map<string, number>> {
+  const summary = JSON.parse(await fs.readFile(summaryPath, 'utf8'));
+  const map = new Map<string, number>();
+  for (const result of summary.results ?? []) {
+    for (const uploadId of result.uploadIds ?? []) map.set(uploadId, result.iteration);
+  }
+  return map;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  if (!opts.file && process.stdin.isTTY) {
+    throw new Error('Pass a log file or pipe emulator output on stdin');
+  }
+  const text = opts.file ? await fs.readFile(opts.file, 'utf8') : await readStdin();
+  const uploadIterations = opts.summary
+    ? await loadUploadIterations(opts.summary)
+    : undefined;
+
+  const analysis = analyzeLog(text, uploadIterations);
+  console.log(JSON.stringify(analysis, null, 2));
+
+  if (analysis.counts.storageSnapshotDumps || analysis.counts.payloadTypeErrors) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,78 @@
+// Importing createDoc also points the Admin SDK at the emulators
+import './createDoc';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { collectGarbage } from '../src/storage-gc';
+
+// Reconcile Storage objects, upload tokens and upload docs, deleting orphans
+// and expired leftovers (see src/storage-gc.ts):
+//   cd functions && npx ts-node scripts/collectGarbage.ts --dry-run
+//   cd functions && npx ts-node scripts/collectGarbage.ts --grace-ms 0 --retention-ms 3600000
+
+interface GcOptions {
+  dryRun: boolean;
+  uploadId?: string;
+  graceMs?: number;
+  retentionMs?: number;
+  out?: string;
+}
+
+function parseArgs(argv: string[]): GcOptions {
+  const opts: GcOptions = { dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const eq = argv[i].indexOf('=');
+    const flag = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+    const nonNegativeInt = () => {
+      const n = Number(value());
+      if (!Number.isInteger(n) || n < 0) throw new Error(`${flag} expects a non-negative integer`);
+      return n;
+    };
+
+    switch (flag) {
+      case '--dry-run':
+        opts.dryRun = true;
+        break;
+      case '--upload':
+        opts.uploadId = value();
+        break;
+      case '--grace-ms':
+        opts.graceMs = nonNegativeInt();
+        break;
+      case '--retention-ms':
+        opts.retentionMs = nonNegativeInt();
+        break;
+      case '--out':
+        opts.out = value();
+        break;
+      default:
+        throw new Error(`Unknown arg: ${argv[i]}`);
+    }
+  }
+  return opts;
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const report = await collectGarbage(opts);
+  const json = JSON.stringify(report, null, 2);
+
+  if (opts.out) {
+    await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+    await fs.writeFile(opts.out, json);
+  }
+  console.log(json);
+
+  if (report.errors.length) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
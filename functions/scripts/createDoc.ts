@@ -1,4 +1,12 @@
 import admin from 'firebase-admin';
+import { resolveRunId, runUploadId } from '../src/run-scope';
+import { seededRandom } from '../src/seeded-random';
+import {
+  loadWorkloadScenario,
+  staggerDelayMs,
+  workloadSettings,
+} from '../src/workload-scenario';
+import type { WorkloadScenario } from '../src/workload-scenario';
 
 // Use the same project ID as .firebaserc to ensure writes hit the same emulator namespace as Functions
 const DEFAULT_EMULATOR_PROJECT_ID =
@@ -28,22 +36,59 @@ if (!admin.apps.length) {
   console.log('[createDoc] admin init');
 }
 
-async function main() {
-  console.log('Creating test docs...');
+export interface CreateDocsOptions {
+  iteration?: number;
+  seed?: string;
+  // Defaults to RUN_ID, else derived from the seed and iteration (see src/run-scope.ts)
+  runId?: string;
+  // Library name, path to a scenario JSON file, or a parsed scenario.
+  // Defaults to WORKLOAD_SCENARIO, else 'default' (see functions/scenarios/)
+  scenario?: string | WorkloadScenario;
+}
+
+// Create the upload docs for one test iteration and flip them to generate=true.
+// Also used in-process by the race-test runner.
+export async function createUploadDocs(
+  opts: CreateDocsOptions = {},
+): Promise<string[]> {
+  const { iteration, seed } = opts;
+  const runId = resolveRunId({ explicit: opts.runId, iteration, seed });
+  const scenario =
+    typeof opts.scenario === 'object' ? opts.scenario : await loadWorkloadScenario(opts.scenario);
+  // Keyed per iteration so each loop step of a seeded run replays independently
+  const rng = seededRandom(seed, 'createDoc', iteration ?? 0);
+  const clips = Array.from({ length: scenario.clipsPerUpload }, (_, c) => `clip-${c + 1}`);
+
+  console.log(`Creating ${scenario.uploads} test docs for run ${runId} (scenario ${scenario.name})...`);
 
   // Create multiple documents rapidly (like clicking confirm timings multiple times)
-  const promises = Array.from({ length: 3 }).map(async (_, i) => {
+  const promises = Array.from({ length: scenario.uploads }).map(async (_, i) => {
     const col = admin.firestore().collection('uploads');
-    const docRef = await col.add({
+    const docRng = rng.fork('upload', i);
+    // Seeded runs get stable doc IDs so file names and tokens replay too.
+    // The run prefix puts every object path of the run under one prefix.
+    const docRef = col.doc(runUploadId(runId, seed ? docRng.base36(20) : col.doc().id));
+    await docRef.set({
       content: `Rapid test content ${i} ` + new Date().toISOString(),
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       generate: false,
       testRun: i,
+      // Lets routing anomalies be tied back to the test loop iteration
+      ...(iteration !== undefined && { iteration }),
+      ...(seed !== undefined && { seed }),
+      runId,
+      // The triggers take the fan-out from these rather than the scenario file
+      clips,
+      previewVariants: scenario.previewsPerClip,
+      ...(scenario.previewPreset !== undefined && { previewPreset: scenario.previewPreset }),
+      workload: workloadSettings(scenario),
     });
     console.log(`Created uploads/${docRef.id}`);
 
-    // Add slight delay between creates to stagger the triggers
-    await new Promise((resolve) => setTimeout(resolve, i * 100));
+    // Stagger the generate flips per the scenario's pattern
+    await new Promise((resolve) =>
+      setTimeout(resolve, staggerDelayMs(scenario.stagger, i, docRng)),
+    );
 
     // Now flip generate -> true to trigger onDocumentUpdated logic.
     await docRef.update({ generate: true });
@@ -54,9 +99,19 @@ async function main() {
 
   const docIds = await Promise.all(promises);
   console.log(`Done. Docs: ${docIds.join(', ')}`);
+  return docIds;
+}
+
+async function main() {
+  await createUploadDocs({
+    iteration: process.env.ITERATION ? Number(process.env.ITERATION) : undefined,
+    seed: process.env.TEST_SEED || undefined,
+  });
 }
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  clearTimeline,
+  findTriggerOverlaps,
+  readTimeline,
+  timelineDir,
+  toChromeTrace,
+  TimelineSpan,
+} from '../src/timeline';
+
+// Export the recorded invocation timeline as a Chrome trace:
+//   cd functions && npx ts-node scripts/exportTimeline.ts --out ../race-results/timeline.trace.json
+// Open the output in chrome://tracing or https://ui.perfetto.dev.
+
+interface ExportOptions {
+  dir: string;
+  out: string;
+  iteration?: number;
+  correlationId?: string;
+  clear: boolean;
+}
+
+function parseArgs(argv: string[]): ExportOptions {
+  const opts: ExportOptions = {
+    dir: timelineDir(),
+    out: path.join('race-results', 'timeline.trace.json'),
+    clear: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const eq = argv[i].indexOf('=');
+    const flag = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+
+    switch (flag) {
+      case '--dir':
+        opts.dir = value();
+        break;
+      case '--out':
+        opts.out = value();
+        break;
+      case '--iteration': {
+        const n = Number(value());
+        if (!Number.isInteger(n)) throw new Error('--iteration expects an integer');
+        opts.iteration = n;
+        break;
+      }
+      case '--correlation':
+        opts.correlationId = value();
+        break;
+      case '--clear':
+        opts.clear = true;
+        break;
+      default:
+        throw new Error(`Unknown arg: ${argv[i]}`);
+    }
+  }
+  return opts;
+}
+
+// Only handler and ffmpeg spans inside a trigger's chain know the iteration
+// through its correlation ID, so an iteration selects its chains as well.
+function selectSpans(spans: TimelineSpan[], opts: ExportOptions): TimelineSpan[] {
+  let selected = spans;
+  if (opts.iteration !== undefined) {
+    const chains = new Set(
+      spans
+        .filter((s) => s.iteration === opts.iteration && s.correlationId)
+        .map((s) => s.correlationId),
+    );
+    selected = selected.filter(
+      (s) =>
+        s.iteration === opts.iteration ||
+        (s.correlationId !== null && chains.has(s.correlationId)),
+    );
+  }
+  if (opts.correlationId) {
+    selected = selected.filter((s) => s.correlationId === opts.correlationId);
+  }
+  return selected;
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const all = await readTimeline(opts.dir);
+  const spans = selectSpans(all, opts);
+  const overlaps = findTriggerOverlaps(spans);
+
+  await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+  await fs.writeFile(opts.out, JSON.stringify(toChromeTrace(spans, overlaps)));
+
+  const byKind: Record<string, number> = {};
+  for (const span of spans) byKind[span.kind] = (byKind[span.kind] ?? 0) + 1;
+  console.log(
+    JSON.stringify(
+      {
+        dir: opts.dir,
+        out: opts.out,
+        spans: spans.length,
+        byKind,
+        workers: new Set(spans.map((s) => s.pid)).size,
+        overlaps: overlaps.map((o) => ({
+          pid: o.pid,
+          storage: o.storage.name,
+          firestore: o.firestore.name,
+          overlapMs: Number((o.overlapEndMs - o.overlapStartMs).toFixed(3)),
+          at: new Date(o.overlapStartMs).toISOString(),
+          storageCorrelationId: o.storage.correlationId,
+          firestoreCorrelationId: o.firestore.correlationId,
+        })),
+      },
+      null,
+      2,
+    ),
+  );
+
+  if (opts.clear) await clearTimeline(opts.dir);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
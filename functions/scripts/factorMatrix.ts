@@ -0,0 +1,368 @@
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import {
+  ALL_ON_REPRO_FACTORS,
+  REPRO_FACTOR_NAMES,
+  effectiveReproFactors,
+  formatReproFactors,
+  parseReproFactors,
+} from '../src/repro-factors';
+import type { ReproFactorName, ReproFactors } from '../src/repro-factors';
+
+// Run seeded iterations once per combination of repro factors and tabulate
+// how often events were misrouted, to find the smallest reproduction:
+//   cd functions && npx ts-node scripts/factorMatrix.ts --iterations 20
+//   npx ts-node scripts/factorMatrix.ts --design full --factors axiosist,inspectFunctions,highConcurrency
+// The emulator target restarts the emulators per combination (emulators:exec)
+// and runs the race runner inside; the offline target runs the harness, which
+// never misroutes, so it only checks that every combination runs.
+
+type Design = 'ablation' | 'full';
+type Target = 'emulator' | 'offline';
+
+interface MatrixOptions {
+  factors: ReproFactorName[];
+  base: ReproFactors;
+  design: Design;
+  target: Target;
+  iterations: number;
+  seed: string;
+  outDir: string;
+  timeoutMs: number;
+  build: boolean;
+  offlineWorker: boolean;
+}
+
+interface ComboResult {
+  factors: ReproFactors;
+  key: string;
+  iterationsRun: number;
+  misroutedIterations: number;
+  misrouteRate: number;
+  anomalies: number;
+  failedIterations: number;
+  durationMs: number;
+  error?: string;
+}
+
+// Shape shared with raceTest's summary.json, reduced to what is tabulated.
+interface IterationSummary {
+  results: Array<{ iteration: number; anomalies: number; failures: string[] }>;
+}
+
+const FUNCTIONS_DIR = path.resolve(__dirname, '..');
+const REPO_ROOT = path.resolve(FUNCTIONS_DIR, '..');
+
+function parseArgs(argv: string[]): MatrixOptions {
+  const opts: MatrixOptions = {
+    factors: [...REPRO_FACTOR_NAMES],
+    base: { ...ALL_ON_REPRO_FACTORS },
+    design: 'ablation',
+    target: 'emulator',
+    iterations: 10,
+    seed: process.env.TEST_SEED || '12345',
+    outDir: path.join('race-results', 'matrix'),
+    timeoutMs: 15 * 60 * 1000,
+    build: true,
+    offlineWorker: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const eq = argv[i].indexOf('=');
+    const flag = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+    const positiveInt = () => {
+      const n = Number(value());
+      if (!Number.isInteger(n) || n < 1) {
+        throw new Error(`${flag} expects a positive integer`);
+      }
+      return n;
+    };
+
+    switch (flag) {
+      case '--factors': {
+        const names = value().split(',').map((n) => n.trim()).filter(Boolean);
+        for (const name of names) {
+          if (!REPRO_FACTOR_NAMES.includes(name as ReproFactorName)) {
+            throw new Error(`Unknown repro factor "${name}"`);
+          }
+        }
+        opts.factors = names as ReproFactorName[];
+        break;
+      }
+      case '--base':
+        opts.base = { ...ALL_ON_REPRO_FACTORS, ...pickSet(value()) };
+        break;
+      case '--design': {
+        const design = value();
+        if (design !== 'ablation' && design !== 'full') {
+          throw new Error('--design expects ablation or full');
+        }
+        opts.design = design;
+        break;
+      }
+      case '--target': {
+        const target = value();
+        if (target !== 'emulator' && target !== 'offline') {
+          throw new Error('--target expects emulator or offline');
+        }
+        opts.target = target;
+        break;
+      }
+      case '--iterations':
+        opts.iterations = positiveInt();
+        break;
+      case '--seed':
+        opts.seed = value();
+        break;
+      case '--out-dir':
+        opts.outDir = value();
+        break;
+      case '--timeout-ms':
+        opts.timeoutMs = positiveInt();
+        break;
+      case '--no-build':
+        opts.build = false;
+        break;
+      case '--offline-worker':
+        opts.offlineWorker = true;
+        break;
+      default:
+        throw new Error(`Unknown arg: ${argv[i]}`);
+    }
+  }
+  return opts;
+}
+
+// Only the factors named in "name=on,..." (parseReproFactors fills the rest
+// with tree defaults, which --base must not pick up).
+function pickSet(spec: string): Partial<ReproFactors> {
+  const parsed = parseReproFactors(spec);
+  const named = spec.split(',').map((part) => part.split('=')[0].trim());
+  const picked: Partial<ReproFactors> = {};
+  for (const name of named) {
+    if (name) picked[name as ReproFactorName] = parsed[name as ReproFactorName];
+  }
+  return picked;
+}
+
+// Ablation: the base plus the base with each varied factor switched off.
+// Full: every on/off assignment of the varied factors. Combinations that are
+// equivalent once inert factors are dropped run once.
+export function buildCombinations(
+  base: ReproFactors,
+  factors: ReproFactorName[],
+  design: Design,
+): ReproFactors[] {
+  const candidates: ReproFactors[] = [];
+  if (design === 'ablation') {
+    candidates.push(base);
+    for (const name of factors) candidates.push({ ...base, [name]: !base[name] });
+  } else {
+    for (let mask = (1 << factors.length) - 1; mask >= 0; mask--) {
+      const combo = { ...base };
+      factors.forEach((name, bit) => {
+        combo[name] = (mask & (1 << bit)) !== 0;
+      });
+      candidates.push(combo);
+    }
+  }
+
+  const seen = new Set<string>();
+  return candidates
+    .map(effectiveReproFactors)
+    .filter((combo) => {
+      const key = formatReproFactors(combo);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function runCombination(
+  combo: ReproFactors,
+  comboDir: string,
+  opts: MatrixOptions,
+): { error?: string } {
+  const env = {
+    ...process.env,
+    REPRO_FACTORS: JSON.stringify(combo),
+    TEST_SEED: opts.seed,
+  };
+  const runnerArgs = [
+    '--iterations',
+    String(opts.iterations),
+    '--seed',
+    opts.seed,
+    '--out-dir',
+    comboDir,
+  ];
+
+  const result =
+    opts.target === 'emulator'
+      ? spawnSync(
+          'npx',
+          [
+            'firebase',
+            'emulators:exec',
+            '--only',
+            'functions,firestore,storage',
+            ...(combo.inspectFunctions ? ['--inspect-functions'] : []),
+            ['node', 'functions/lib/scripts/raceTest.js', ...runnerArgs].join(' '),
+          ],
+          { cwd: REPO_ROOT, env, stdio: 'inherit', timeout: opts.timeoutMs },
+        )
+      : spawnSync(
+          'npx',
+          ['ts-node', 'scripts/factorMatrix.ts', '--offline-worker', ...runnerArgs],
+          { cwd: FUNCTIONS_DIR, env, stdio: 'inherit', timeout: opts.timeoutMs },
+        );
+
+  if (result.error) return { error: result.error.message };
+  // The race runner exits 1 when any iteration fails; the summary says why.
+  return {};
+}
+
+async function readSummary(comboDir: string): Promise<IterationSummary | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(comboDir, 'summary.json'), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function toTable(results: ComboResult[], factors: ReproFactorName[]): string {
+  const header = [...factors, 'iterations', 'misrouted', 'rate', 'anomalies', 'failed'];
+  const rows = results.map((r) => [
+    ...factors.map((name) => (r.factors[name] ? 'on' : 'off')),
+    String(r.iterationsRun),
+    String(r.misroutedIterations),
+    r.error ? `error: ${r.error}` : `${(r.misrouteRate * 100).toFixed(1)}%`,
+    String(r.anomalies),
+    String(r.failedIterations),
+  ]);
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+async function runMatrix(opts: MatrixOptions) {
+  const combos = buildCombinations(opts.base, opts.factors, opts.design);
+  console.log(
+    `[factorMatrix] ${combos.length} combinations x ${opts.iterations} iterations (${opts.design}, ${opts.target})`,
+  );
+
+  if (opts.target === 'emulator' && opts.build) {
+    const build = spawnSync('npm', ['run', 'build'], { cwd: REPO_ROOT, stdio: 'inherit' });
+    if (build.status !== 0) throw new Error('npm run build failed');
+  }
+
+  const outDir = path.resolve(opts.outDir);
+  const results: ComboResult[] = [];
+  for (const [index, combo] of combos.entries()) {
+    const key = formatReproFactors(combo);
+    const comboDir = path.join(outDir, `combo-${String(index + 1).padStart(3, '0')}`);
+    console.log(`🧪 [${index + 1}/${combos.length}] ${key}`);
+    await fs.rm(comboDir, { recursive: true, force: true });
+
+    const startedAt = Date.now();
+    const run = runCombination(combo, comboDir, opts);
+    const summary = await readSummary(comboDir);
+    const iterations = summary?.results ?? [];
+    const misrouted = iterations.filter((r) => r.anomalies > 0).length;
+    results.push({
+      factors: combo,
+      key,
+      iterationsRun: iterations.length,
+      misroutedIterations: misrouted,
+      misrouteRate: iterations.length ? misrouted / iterations.length : 0,
+      anomalies: iterations.reduce((sum, r) => sum + r.anomalies, 0),
+      failedIterations: iterations.filter((r) => r.failures.length > 0).length,
+      durationMs: Date.now() - startedAt,
+      ...((run.error || !summary) && { error: run.error ?? 'no summary.json written' }),
+    });
+  }
+
+  const table = toTable(results, opts.factors);
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(
+    path.join(outDir, 'matrix.json'),
+    JSON.stringify({ ...opts, offlineWorker: undefined, results }, null, 2),
+  );
+  await fs.writeFile(path.join(outDir, 'matrix.md'), `${table}\n`);
+
+  console.log(table);
+  console.log(`📄 Wrote ${path.join(outDir, 'matrix.json')} and matrix.md`);
+}
+
+// One combination in this process against the offline harness, writing a
+// summary.json shaped like the race runner's.
+async function runOfflineWorker(opts: MatrixOptions) {
+  const { OfflineHarness } = await import('../src/harness');
+  const { ROUTING_ANOMALIES_COLLECTION } = await import('../src/routing-guard');
+  const { reproFactors } = await import('../src/repro-factors');
+  const harness = await OfflineHarness.create();
+
+  // With axiosist off the internal client goes over loopback HTTP, so serve
+  // the api app on an ephemeral port.
+  const { app } = await import('../src/express-app');
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  process.env.INTERNAL_API_URL ??= `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const results: IterationSummary['results'] = [];
+  try {
+    for (let iteration = 1; iteration <= opts.iterations; iteration++) {
+      const failuresBefore = harness.failures().length;
+      const upload = harness.firestore.collection('uploads').doc(`matrix-${iteration}`);
+      await upload.set({ generate: false, iteration, seed: opts.seed });
+      await upload.update({ generate: true });
+      await harness.idle();
+
+      const anomalies = await harness.firestore
+        .collection(ROUTING_ANOMALIES_COLLECTION)
+        .where('iteration', '==', iteration)
+        .get();
+      const snap = await upload.get();
+      const failures = harness
+        .failures()
+        .slice(failuresBefore)
+        .map((r) => `${r.functionName}: ${r.error?.message}`);
+      if (snap.get('status') !== 'completed') {
+        failures.push(`upload ended ${snap.get('status') ?? 'without a status'}`);
+      }
+      results.push({ iteration, anomalies: anomalies.size, failures });
+      console.log(`🔄 Iteration ${iteration}/${opts.iterations}: ${anomalies.size} anomalies`);
+    }
+  } finally {
+    server.close();
+  }
+
+  await fs.mkdir(opts.outDir, { recursive: true });
+  await fs.writeFile(
+    path.join(opts.outDir, 'summary.json'),
+    JSON.stringify({ seed: opts.seed, factors: reproFactors(), results }, null, 2),
+  );
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  if (opts.offlineWorker) await runOfflineWorker(opts);
+  else await runMatrix(opts);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,955 @@
+import assert from 'assert/strict';
+import axios from 'axios';
+import admin from 'firebase-admin';
+import { OfflineHarness, storageFinalizedEvent } from '../src/harness';
+
+// Assertions over the triggers, run against the offline harness:
+//   cd functions && npx ts-node scripts/offlineChecks.ts [name filter]
+// Exits non-zero on the first failed check.
+
+// The functions modules read the harness environment at import time, so they
+// are loaded after OfflineHarness.create().
+async function loadModules() {
+  const [
+    cancellation,
+    jobs,
+    completion,
+    failedWork,
+    pool,
+    retry,
+    routing,
+    runData,
+    runScope,
+    gc,
+    paths,
+    stitching,
+    storage,
+    tokens,
+    workload,
+  ] = await Promise.all([
+    import('../src/cancellation'),
+    import('../src/clip-jobs'),
+    import('../src/upload-completion'),
+    import('../src/failed-work'),
+    import('../src/process-pool'),
+    import('../src/retry'),
+    import('../src/routing-guard'),
+    import('../src/run-data'),
+    import('../src/run-scope'),
+    import('../src/storage-gc'),
+    import('../src/storage-paths'),
+    import('../src/stitching'),
+    import('../src/storage-triggers'),
+    import('../src/upload-tokens'),
+    import('../src/workload-scenario'),
+  ]);
+  return {
+    CancelledError: cancellation.CancelledError,
+    clipJobRef: jobs.clipJobRef,
+    failClipJob: jobs.failClipJob,
+    queueClipJobs: jobs.queueClipJobs,
+    transitionClipJob: jobs.transitionClipJob,
+    beginUploadProcessing: completion.beginUploadProcessing,
+    recordFailedUpload: completion.recordFailedUpload,
+    sweepStalledUploads: completion.sweepStalledUploads,
+    FAILED_WORK_COLLECTION: failedWork.FAILED_WORK_COLLECTION,
+    recordFailedWork: failedWork.recordFailedWork,
+    replayFailedWork: failedWork.replayFailedWork,
+    PoolSaturatedError: pool.PoolSaturatedError,
+    ProcessPool: pool.ProcessPool,
+    RetryExhaustedError: retry.RetryExhaustedError,
+    withRetry: retry.withRetry,
+    MISROUTED_EVENTS_COLLECTION: routing.MISROUTED_EVENTS_COLLECTION,
+    ROUTING_ANOMALIES_COLLECTION: routing.ROUTING_ANOMALIES_COLLECTION,
+    setMisroutePolicy: routing.setMisroutePolicy,
+    RunInFlightError: runData.RunInFlightError,
+    findRunData: runData.findRunData,
+    teardownRun: runData.teardownRun,
+    runUploadId: runScope.runUploadId,
+    collectGarbage: gc.collectGarbage,
+    formatClipPath: paths.formatClipPath,
+    uploadPrefix: paths.uploadPrefix,
+    stitchClipPreviews: stitching.stitchClipPreviews,
+    PROCESSED_EVENTS_COLLECTION: storage.PROCESSED_EVENTS_COLLECTION,
+    issueUploadToken: tokens.issueUploadToken,
+    sweepExpiredUploadTokens: tokens.sweepExpiredUploadTokens,
+    SCENARIO_LIBRARY: workload.SCENARIO_LIBRARY,
+    WorkloadScenarioError: workload.WorkloadScenarioError,
+    loadWorkloadScenario: workload.loadWorkloadScenario,
+    parseWorkloadScenario: workload.parseWorkloadScenario,
+  };
+}
+
+type Modules = Awaited<ReturnType<typeof loadModules>>;
+type Check = (harness: OfflineHarness, m: Modules) => Promise<void>;
+
+const UPLOAD_TOKENS = 'storageUploadTokens';
+
+// Tokens carry no uploadId, only the path they were issued for.
+async function tokensFor(harness: OfflineHarness, m: Modules, uploadId: string) {
+  const prefix = m.uploadPrefix(uploadId);
+  const snap = await harness.firestore
+    .collection(UPLOAD_TOKENS)
+    .where('fileStoragePath', '>=', prefix)
+    .where('fileStoragePath', '<', `${prefix}\uf8ff`)
+    .get();
+  return snap.docs;
+}
+
+// A pool of one slot held until release() is called, recording start order.
+function blockedPool(m: Modules, order: 'fifo' | 'priority', maxQueued = 0) {
+  const pool = new m.ProcessPool({ name: 'check', maxParallel: 1, order, maxQueued });
+  const started: string[] = [];
+  let release!: () => void;
+  const held = new Promise<void>((resolve) => (release = resolve));
+  const run = (label: string, priority?: number, wait: Promise<void> = Promise.resolve()) =>
+    pool.run({ label, priority }, async () => {
+      started.push(label);
+      await wait;
+    });
+  const blocker = run('blocker', 0, held);
+  return { pool, started, run, release, blocker };
+}
+
+// The error body a rejected harness.callApi() answered with.
+async function apiError(call: Promise<unknown>) {
+  const error = await call.then(
+    () => assert.fail('expected the api call to fail'),
+    (e: unknown) => e,
+  );
+  assert.ok(axios.isAxiosError(error) && error.response);
+  return { status: error.response.status, body: error.response.data as Record<string, unknown> };
+}
+
+function verifiedUploads(snap: { get(fieldPath: string): unknown }): string[] {
+  const value = snap.get('verifiedUploads');
+  return Array.isArray(value) ? value : [];
+}
+
+const checks: Record<string, Check> = {
+  // generate false -> true uploads every file and consumes every token
+  async 'generate flip uploads and verifies every file'(harness, m) {
+    const upload = harness.firestore.collection('uploads').doc('checkComplete');
+    await upload.set({ generate: false, seed: 'offline-checks' });
+    await upload.update({ generate: true });
+    await harness.idle();
+
+    const [files] = await harness.bucket.getFiles({ prefix: m.uploadPrefix('checkComplete') });
+    const tokens = await tokensFor(harness, m, 'checkComplete');
+    assert.ok(files.length > 0, 'files were uploaded');
+    assert.deepEqual(
+      [...verifiedUploads(await upload.get())].sort(),
+      files.map((f) => f.name).sort(),
+    );
+    assert.equal(tokens.length, files.length, 'a token was issued per uploaded file');
+    const closed = await upload.get();
+    assert.equal(closed.get('status'), 'completed');
+    assert.equal(closed.get('expectedFiles'), files.length);
+    assert.deepEqual(
+      tokens.filter((t) => t.get('isConsumed') !== true).map((t) => t.id),
+      [],
+      'every token was consumed',
+    );
+    assert.deepEqual(harness.failures(), []);
+  },
+
+  // Updates that do not flip generate on leave the upload alone
+  async 'no processing without a generate transition'(harness, m) {
+    const upload = harness.firestore.collection('uploads').doc('checkNoFlip');
+    await upload.set({ generate: true });
+    await upload.update({ note: 'unrelated' });
+    await harness.idle();
+
+    assert.equal((await upload.get()).get('processingAttempt'), undefined);
+    assert.equal((await tokensFor(harness, m, 'checkNoFlip')).length, 0);
+  },
+
+  async 'finalize enforces upload tokens'(harness, m) {
+    const uploadId = 'checkTokens';
+    const objectName = (n: number) =>
+      m.formatClipPath({ uploadId, clipId: 'clip-1', variant: String(n), ext: 'txt' });
+    const issue = (token: string, fileStoragePath: string) =>
+      harness.withoutTriggers(() =>
+        harness.firestore.collection(UPLOAD_TOKENS).doc(token).set({
+          fileStoragePath,
+          isConsumed: false,
+        }),
+      );
+    const save = (name: string, uploadToken: string) =>
+      harness.bucket.file(name).save('offline', {
+        metadata: { metadata: { uploadId, uploadToken } },
+      });
+    const isConsumed = async (token: string) =>
+      (await harness.firestore.collection(UPLOAD_TOKENS).doc(token).get()).get('isConsumed');
+
+    await issue('token-check-valid', objectName(1));
+    await save(objectName(1), 'token-check-valid');
+    await harness.idle();
+    assert.equal(await isConsumed('token-check-valid'), true);
+
+    // No token doc: the object is never verified
+    await save(objectName(2), 'token-check-missing');
+    // Token issued for a different path: left unconsumed, not verified
+    await issue('token-check-other-path', objectName(9));
+    await save(objectName(3), 'token-check-other-path');
+    await harness.idle();
+    assert.equal(await isConsumed('token-check-other-path'), false);
+
+    const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+    assert.deepEqual(verifiedUploads(upload), [objectName(1)]);
+  },
+
+  // Redelivering a finalize event (same event id) is answered from the ledger
+  async 'duplicate finalize event hits the ledger'(harness, m) {
+    const uploadId = 'checkLedger';
+    const name = m.formatClipPath({ uploadId, clipId: 'clip-1', variant: '1', ext: 'txt' });
+    let event!: ReturnType<typeof storageFinalizedEvent>;
+    await harness.withoutTriggers(async () => {
+      await harness.firestore.collection(UPLOAD_TOKENS).doc('token-check-ledger').set({
+        fileStoragePath: name,
+        isConsumed: false,
+      });
+      await harness.bucket.file(name).save('offline', {
+        metadata: { metadata: { uploadId, uploadToken: 'token-check-ledger' } },
+      });
+      event = storageFinalizedEvent(harness.bucket.get(name)!);
+    });
+    await harness.dispatch('onUploadFileFinalize', event);
+    await harness.dispatch('onUploadFileFinalize', event);
+    await harness.idle();
+
+    const ledger = await harness.firestore
+      .collection(m.PROCESSED_EVENTS_COLLECTION)
+      .doc(event.id)
+      .get();
+    // The second delivery did not re-check the (now consumed) token
+    assert.equal(ledger.get('outcome'), 'verified');
+    assert.equal((await harness.firestore.collection(m.PROCESSED_EVENTS_COLLECTION).get()).size, 1);
+    const token = await harness.firestore.collection(UPLOAD_TOKENS).doc('token-check-ledger').get();
+    assert.equal(token.get('consumedBy.eventId'), event.id);
+    const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+    assert.deepEqual(verifiedUploads(upload), [name]);
+  },
+
+  async 'expired token is rejected'(harness, m) {
+    const uploadId = 'checkExpired';
+    const name = m.formatClipPath({ uploadId, clipId: 'clip-1', variant: '1', ext: 'txt' });
+    await m.issueUploadToken({
+      token: 'token-check-expired',
+      uploadId,
+      fileStoragePath: name,
+      issuedBy: 'offlineChecks',
+      ttlMs: -1000,
+    });
+    await harness.bucket.file(name).save('offline', {
+      metadata: { metadata: { uploadId, uploadToken: 'token-check-expired' } },
+    });
+    await harness.idle();
+
+    const ledger = await harness.firestore
+      .collection(m.PROCESSED_EVENTS_COLLECTION)
+      .where('objectName', '==', name)
+      .get();
+    assert.deepEqual(ledger.docs.map((d) => d.get('outcome')), ['token-expired']);
+    const token = await harness.firestore.collection(UPLOAD_TOKENS).doc('token-check-expired').get();
+    assert.equal(token.get('isConsumed'), false);
+    const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+    assert.deepEqual(verifiedUploads(upload), []);
+  },
+
+  // Marked tokens stay in the dateExpires range, so later sweeps page past them
+  async 'expiry sweep pages past marked tokens'(harness, m) {
+    await harness.withoutTriggers(async () => {
+      for (let i = 0; i < 650; i++) {
+        await m.issueUploadToken({
+          token: `token-check-sweep-${String(i).padStart(3, '0')}`,
+          uploadId: 'checkSweep',
+          fileStoragePath: `uploads/checkSweep-${i}-check.txt`,
+          issuedBy: 'offlineChecks',
+          ttlMs: -1000,
+        });
+      }
+      // Consumed and still-valid tokens are never swept
+      await harness.firestore
+        .collection(UPLOAD_TOKENS)
+        .doc('token-check-sweep-000')
+        .update({ isConsumed: true });
+      await m.issueUploadToken({
+        token: 'token-check-sweep-live',
+        uploadId: 'checkSweep',
+        fileStoragePath: 'uploads/checkSweep-live-check.txt',
+        issuedBy: 'offlineChecks',
+      });
+    });
+
+    const sweeps = [];
+    for (let i = 0; i < 3; i++) {
+      sweeps.push((await m.sweepExpiredUploadTokens({ limit: 600 })).length);
+    }
+    assert.deepEqual(sweeps, [600, 49, 0]);
+    const marked = await harness.firestore
+      .collection(UPLOAD_TOKENS)
+      .where('isExpired', '==', true)
+      .get();
+    assert.equal(marked.size, 649);
+    const live = await harness.firestore.collection(UPLOAD_TOKENS).doc('token-check-sweep-live').get();
+    assert.equal(live.get('isExpired'), undefined);
+  },
+
+  async 'clip jobs reject illegal transitions'(harness, m) {
+    const uploadId = 'checkJobs';
+    const status = async () => (await m.clipJobRef(uploadId, 'clip-1').get()).get('status');
+    await harness.withoutTriggers(async () => {
+      await assert.rejects(
+        m.transitionClipJob(uploadId, 'clip-1', 'running'),
+        /was never queued/,
+      );
+      await m.queueClipJobs(uploadId, [
+        { clipId: 'clip-1', index: 0, sourceObject: null, previewVariants: 1 },
+      ]);
+      await assert.rejects(
+        m.transitionClipJob(uploadId, 'clip-1', 'succeeded'),
+        /Invalid clip job transition queued -> succeeded/,
+      );
+      await m.transitionClipJob(uploadId, 'clip-1', 'running');
+      await m.transitionClipJob(uploadId, 'clip-1', 'uploading');
+      await m.transitionClipJob(uploadId, 'clip-1', 'succeeded');
+      await assert.rejects(
+        m.transitionClipJob(uploadId, 'clip-1', 'running'),
+        /Invalid clip job transition succeeded -> running/,
+      );
+      // Catch-all failure leaves a terminal job alone
+      await m.failClipJob(uploadId, 'clip-1', new Error('late'));
+    });
+    assert.equal(await status(), 'succeeded');
+    const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+    assert.equal(upload.get('progress.succeeded'), 1);
+    assert.equal(upload.get('progress.percentComplete'), 100);
+  },
+
+  // Invalid clip lists fail the upload before any job or token is created
+  async 'bad clip definitions are recorded'(harness, m) {
+    const cases: Array<[string, Record<string, unknown>, RegExp]> = [
+      ['checkClipsEmpty', { clips: [] }, /at least one clip/],
+      ['checkClipsDuplicate', { clips: ['clip-1', 'clip-1'] }, /duplicated/],
+      ['checkClipsVariants', { clips: [{ clipId: 'clip-1', previewVariants: 10 }] }, /previewVariants/],
+      ['checkClipsId', { clips: [{ clipId: 'bad/id' }] }, /clipId must match/],
+      ['checkClipsShape', { clips: 'clip-1' }, /clips must be an array/],
+    ];
+    for (const [uploadId, data] of cases) {
+      await harness.firestore.collection('uploads').doc(uploadId).set({ generate: false, ...data });
+    }
+    // Subcollection docs may not carry a clipId other than their own id
+    await harness.withoutTriggers(() =>
+      harness.firestore
+        .collection('uploads/checkClipsSubcollection/clips')
+        .doc('clip-1')
+        .set({ clipId: 'clip-2' }),
+    );
+    await harness.firestore.collection('uploads').doc('checkClipsSubcollection').set({ generate: false });
+    cases.push(['checkClipsSubcollection', {}, /must match the document id/]);
+
+    for (const [uploadId] of cases) {
+      await harness.firestore.collection('uploads').doc(uploadId).update({ generate: true });
+    }
+    await harness.idle();
+
+    for (const [uploadId, , problem] of cases) {
+      const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+      const error = upload.get('clipDefinitionError') as { message: string } | undefined;
+      assert.match(error?.message ?? '', problem, uploadId);
+      assert.equal((await harness.firestore.collection(`uploads/${uploadId}/jobs`).get()).size, 0);
+      assert.equal((await tokensFor(harness, m, uploadId)).length, 0);
+    }
+  },
+
+  async 'unknown preview preset is recorded'(harness, m) {
+    const upload = harness.firestore.collection('uploads').doc('checkPreset');
+    await upload.set({ generate: false, previewPreset: 'mp4-4k' });
+    await upload.update({ generate: true });
+    await harness.idle();
+
+    const error = (await upload.get()).get('previewPresetError') as
+      | { message: string; preset: string }
+      | undefined;
+    assert.equal(error?.preset, 'mp4-4k');
+    assert.match(error?.message ?? '', /Unknown render preset/);
+    assert.equal((await harness.firestore.collection('uploads/checkPreset/jobs').get()).size, 0);
+    assert.equal((await tokensFor(harness, m, 'checkPreset')).length, 0);
+    assert.deepEqual(harness.failures(), []);
+  },
+
+  // One caller claims the stitch, only once every clip settled, with inputs in clip order
+  async 'stitch is claimed once in clip order'(harness, m) {
+    const uploadId = 'checkStitch';
+    const clipIds = ['clip-a', 'clip-b', 'clip-c'];
+    const previews = (clipId: string) =>
+      ['0', '1'].map((variant) => m.formatClipPath({ uploadId, clipId, variant, ext: 'mp4' }));
+    const stitch = () =>
+      m.stitchClipPreviews({ uploadId, musicVideoId: 'mv-check', verifyTimeoutMs: 0 });
+
+    await harness.withoutTriggers(async () => {
+      await m.queueClipJobs(
+        uploadId,
+        clipIds.map((clipId, index) => ({ clipId, index, sourceObject: null, previewVariants: 2 })),
+      );
+      // Settle in reverse order; the last clip is still running for the first attempt
+      for (const clipId of [...clipIds].reverse()) {
+        await m.transitionClipJob(uploadId, clipId, 'running');
+        if (clipId === 'clip-a') {
+          assert.equal((await stitch()).status, 'clips-pending');
+        }
+        await m.transitionClipJob(uploadId, clipId, 'uploading', { previewPaths: previews(clipId) });
+        await m.transitionClipJob(uploadId, clipId, 'succeeded');
+      }
+    });
+
+    const outcomes = await Promise.all([stitch(), stitch(), stitch()]);
+    const claimed = outcomes.filter((o) => o.status !== 'already-claimed');
+    assert.equal(claimed.length, 1, JSON.stringify(outcomes));
+    const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+    assert.deepEqual(upload.get('stitch.inputs'), clipIds.flatMap(previews));
+    // The previews were never verified, so the single claimant gives up
+    assert.equal(upload.get('stitch.status'), 'failed');
+    assert.match(String(upload.get('stitch.reason')), /unverified previews/);
+  },
+
+  // A finalize carrying an earlier run's attempt is not counted toward the current run
+  async 'stale-attempt finalize is ignored'(harness, m) {
+    const uploadId = 'checkStaleAttempt';
+    const name = m.formatClipPath({ uploadId, clipId: 'clip-1', variant: '1', ext: 'txt' });
+    await harness.withoutTriggers(async () => {
+      await m.beginUploadProcessing(uploadId, 1);
+      await m.beginUploadProcessing(uploadId, 1);
+      await m.issueUploadToken({
+        token: 'token-check-stale',
+        uploadId,
+        fileStoragePath: name,
+        issuedBy: 'offline-checks',
+        attempt: 1,
+      });
+    });
+    await harness.bucket.file(name).save('offline', {
+      metadata: { metadata: { uploadId, uploadToken: 'token-check-stale' } },
+    });
+    await harness.idle();
+
+    const ledger = await harness.firestore.collection(m.PROCESSED_EVENTS_COLLECTION).get();
+    assert.deepEqual(ledger.docs.map((d) => d.get('outcome')), ['stale-attempt']);
+    const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+    assert.equal(upload.get('processingAttempt'), 2);
+    assert.deepEqual(verifiedUploads(upload), []);
+    assert.equal(upload.get('status'), 'processing');
+  },
+
+  // A file that failed to upload still settles the expected count
+  async 'failed upload closes the run as failed'(harness, m) {
+    const uploadId = 'checkFailedUpload';
+    const name = (n: number) => m.formatClipPath({ uploadId, clipId: 'clip-1', variant: String(n), ext: 'txt' });
+    const attempt = await m.beginUploadProcessing(uploadId, 2);
+    // A failure reported by an earlier run is ignored
+    await m.recordFailedUpload(uploadId, name(9), attempt - 1);
+    await m.recordFailedUpload(uploadId, name(1), attempt);
+    const ref = harness.firestore.collection('uploads').doc(uploadId);
+    assert.equal((await ref.get()).get('status'), 'processing');
+
+    await m.recordFailedUpload(uploadId, name(2), attempt);
+    const upload = await ref.get();
+    assert.equal(upload.get('status'), 'failed');
+    assert.equal(upload.get('processing'), false);
+    assert.deepEqual(upload.get('failedUploads'), [name(1), name(2)]);
+  },
+
+  // Only uploads with no activity inside the window are marked stalled
+  async 'stall sweep marks quiet uploads only'(harness, m) {
+    const uploads = harness.firestore.collection('uploads');
+    await harness.withoutTriggers(async () => {
+      await m.beginUploadProcessing('checkStalled', 3);
+      await m.beginUploadProcessing('checkActive', 3);
+      await uploads.doc('checkStalled').update({
+        processingStartedAt: admin.firestore.Timestamp.fromMillis(Date.now() - 120000),
+      });
+    });
+
+    const report = await m.sweepStalledUploads({ windowMs: 60000 });
+    assert.deepEqual(report.map((r) => r.uploadId), ['checkStalled']);
+    assert.equal(report[0].expectedFiles, 3);
+    assert.equal((await uploads.doc('checkStalled').get()).get('status'), 'stalled');
+    assert.equal((await uploads.doc('checkActive').get()).get('status'), 'processing');
+    // A second sweep has nothing left to mark
+    assert.deepEqual(await m.sweepStalledUploads({ windowMs: 60000 }), []);
+  },
+
+  // Waiting jobs start by priority, FIFO within a priority; fifo ignores priority
+  async 'process pool starts queued jobs in order'(_harness, m) {
+    const byPriority = blockedPool(m, 'priority');
+    const jobs = [
+      byPriority.run('probe', 2),
+      byPriority.run('render-a', 0),
+      byPriority.run('concat', 1),
+      byPriority.run('render-b', 0),
+    ];
+    assert.equal(byPriority.pool.metrics().queued, 4);
+    byPriority.release();
+    await Promise.all([byPriority.blocker, ...jobs]);
+    assert.deepEqual(byPriority.started, ['blocker', 'probe', 'concat', 'render-a', 'render-b']);
+
+    const fifo = blockedPool(m, 'fifo');
+    const fifoJobs = [fifo.run('probe', 2), fifo.run('render-a', 0), fifo.run('concat', 1)];
+    fifo.release();
+    await Promise.all([fifo.blocker, ...fifoJobs]);
+    assert.deepEqual(fifo.started, ['blocker', 'probe', 'render-a', 'concat']);
+  },
+
+  // With maxQueued jobs waiting, the next one is rejected instead of queued
+  async 'process pool rejects jobs past maxQueued'(_harness, m) {
+    const { pool, started, run, release, blocker } = blockedPool(m, 'priority', 2);
+    const queued = [run('a'), run('b')];
+    await assert.rejects(run('c'), m.PoolSaturatedError);
+    release();
+    await Promise.all([blocker, ...queued]);
+
+    assert.deepEqual(started, ['blocker', 'a', 'b']);
+    const metrics = pool.metrics();
+    assert.equal(metrics.rejected, 1);
+    assert.equal(metrics.maxQueuedSeen, 2);
+    assert.equal(metrics.completed, 3);
+    assert.equal(metrics.running + metrics.queued, 0);
+  },
+
+  // Every attempt fails: the last error is wrapped once attempts run out
+  async 'retries stop after maxAttempts'(_harness, m) {
+    let calls = 0;
+    const fail = async () => {
+      calls++;
+      throw new Error('storage unavailable');
+    };
+    const error = await m
+      .withRetry('check upload', fail, { policy: { maxAttempts: 3, baseDelayMs: 1 } })
+      .catch((e: unknown) => e);
+    assert.ok(error instanceof m.RetryExhaustedError);
+    assert.equal(error.attempts, 3);
+    assert.equal(calls, 3);
+    assert.match(error.message, /check upload failed after 3 attempts: storage unavailable/);
+
+    // Errors the caller marks non-retryable are rethrown on the first attempt
+    calls = 0;
+    await assert.rejects(
+      m.withRetry('check upload', fail, { policy: { maxAttempts: 3 }, retryable: () => false }),
+      /^Error: storage unavailable$/,
+    );
+    assert.equal(calls, 1);
+  },
+
+  // Pending failed work is replayed once; a malformed payload is reported, not run
+  async 'exhausted work is replayed'(harness, m) {
+    const uploadId = 'checkReplay';
+    const exhausted = new m.RetryExhaustedError('upload file', 4, new Error('storage unavailable'));
+    const replayable = await m.recordFailedWork({
+      kind: 'api-upload-file',
+      payload: { uploadId, clipId: 'clip-1', fileIndex: 0, baseContent: 'replayed' },
+      error: exhausted,
+    });
+    const malformed = await m.recordFailedWork({
+      kind: 'api-upload-file',
+      payload: { uploadId, clipId: 'clip-1', fileIndex: 'first' },
+      error: exhausted,
+    });
+
+    const report = await m.replayFailedWork({ uploadId });
+    await harness.idle();
+    const outcomes = Object.fromEntries(report.map((r) => [r.id, r]));
+    assert.equal(outcomes[replayable!].outcome, 'replayed');
+    assert.equal(outcomes[malformed!].outcome, 'replay-failed');
+    assert.match(
+      String(outcomes[malformed!].error),
+      /body\.fileIndex must be an integer, got string; body\.baseContent is required/,
+    );
+
+    const entry = await harness.firestore.collection(m.FAILED_WORK_COLLECTION).doc(replayable!).get();
+    assert.equal(entry.get('status'), 'replayed');
+    assert.equal(entry.get('attempts'), 4);
+    const [files] = await harness.bucket.getFiles({ prefix: m.uploadPrefix(uploadId) });
+    assert.equal(files.length, 1);
+    // Nothing is pending any more
+    assert.deepEqual(await m.replayFailedWork({ uploadId }), []);
+  },
+
+  // Cancelling a run invalidates its unused tokens, so a late upload is rejected
+  async 'cancel invalidates unused tokens'(harness, m) {
+    const uploadId = 'checkCancel';
+    const upload = harness.firestore.collection('uploads').doc(uploadId);
+    const name = (n: number) => m.formatClipPath({ uploadId, clipId: 'clip-1', variant: String(n), ext: 'txt' });
+    const save = (n: number) =>
+      harness.bucket.file(name(n)).save('offline', {
+        metadata: { metadata: { uploadId, uploadToken: `token-check-cancel-${n}` } },
+      });
+    await harness.withoutTriggers(async () => {
+      await upload.set({ generate: true });
+      await m.beginUploadProcessing(uploadId, 2);
+      for (const n of [1, 2]) {
+        await m.issueUploadToken({
+          token: `token-check-cancel-${n}`,
+          uploadId,
+          fileStoragePath: name(n),
+          issuedBy: 'offline-checks',
+        });
+      }
+    });
+    await save(1);
+    await harness.idle();
+
+    await upload.update({ cancelRequested: true });
+    await harness.idle();
+    const tokens = Object.fromEntries(
+      (await tokensFor(harness, m, uploadId)).map((t) => [t.id, t]),
+    );
+    assert.equal(tokens['token-check-cancel-1'].get('isInvalidated'), undefined);
+    assert.equal(tokens['token-check-cancel-2'].get('isInvalidated'), true);
+    assert.equal((await upload.get()).get('status'), 'cancelled');
+
+    // The straggler finalizes after the cancel and is not counted
+    await save(2);
+    await harness.idle();
+    const ledger = await harness.firestore
+      .collection(m.PROCESSED_EVENTS_COLLECTION)
+      .where('objectName', '==', name(2))
+      .get();
+    assert.deepEqual(ledger.docs.map((d) => d.get('outcome')), ['token-invalidated']);
+    const cancelled = await upload.get();
+    assert.deepEqual(verifiedUploads(cancelled), [name(1)]);
+    assert.equal(cancelled.get('cancelReason'), 'cancel-requested');
+  },
+
+  // A job whose signal aborts while it waits leaves the queue without running
+  async 'process pool drops jobs aborted while queued'(_harness, m) {
+    const { pool, started, run, release, blocker } = blockedPool(m, 'fifo');
+    const controller = new AbortController();
+    const aborted = pool.run({ label: 'aborted', signal: controller.signal }, async () => {
+      started.push('aborted');
+    });
+    const next = run('next');
+    controller.abort(new m.CancelledError('checkPool', 'generate-off'));
+    await assert.rejects(aborted, m.CancelledError);
+    assert.equal(pool.metrics().queued, 1);
+
+    release();
+    await Promise.all([blocker, next]);
+    assert.deepEqual(started, ['blocker', 'next']);
+    assert.equal(pool.metrics().cancelled, 1);
+  },
+
+  // A dry run reports what would go and deletes nothing; the real pass removes
+  // an expired upload with its objects, tokens and subcollections
+  async 'gc dry run deletes nothing'(harness, m) {
+    const uploads = harness.firestore.collection('uploads');
+    const object = (uploadId: string) =>
+      m.formatClipPath({ uploadId, clipId: 'clip-1', variant: '1', ext: 'txt' });
+    const twoDaysAgo = admin.firestore.Timestamp.fromMillis(Date.now() - 2 * 86400000);
+    await harness.withoutTriggers(async () => {
+      await uploads.doc('checkGcKept').set({
+        status: 'completed',
+        verifiedUploads: [object('checkGcKept')],
+        completedAt: admin.firestore.Timestamp.now(),
+      });
+      await uploads.doc('checkGcExpired').set({ status: 'completed', completedAt: twoDaysAgo });
+      await uploads.doc('checkGcExpired').collection('jobs').doc('clip-1').set({ status: 'done' });
+      await uploads.doc('checkGcExpired').collection('clips').doc('clip-1').set({ label: 'Clip 1' });
+      await m.issueUploadToken({
+        token: 'token-check-gc',
+        uploadId: 'checkGcExpired',
+        fileStoragePath: object('checkGcExpired'),
+        issuedBy: 'offline-checks',
+      });
+      for (const uploadId of ['checkGcKept', 'checkGcExpired', 'checkGcMissing']) {
+        await harness.bucket.file(object(uploadId)).save('offline');
+      }
+    });
+    const collected = (report: Awaited<ReturnType<typeof m.collectGarbage>>) =>
+      report.collected.map((f) => `${f.kind}:${f.uploadId}:${f.reason}`).sort();
+    const expected = [
+      'object:checkGcExpired:upload-expired',
+      'object:checkGcMissing:upload-missing',
+      'token:checkGcExpired:upload-expired',
+      'upload:checkGcExpired:expired',
+    ];
+
+    const dryRun = await m.collectGarbage({ dryRun: true, graceMs: 0 });
+    assert.deepEqual(collected(dryRun), expected);
+    assert.deepEqual(dryRun.deleted, { objects: 0, tokens: 0, uploads: 0, jobs: 0, clips: 0 });
+    assert.equal(dryRun.kept.verified, 1);
+    const [before] = await harness.bucket.getFiles({ prefix: 'uploads/' });
+    assert.equal(before.length, 3);
+    assert.equal((await uploads.doc('checkGcExpired').collection('clips').get()).size, 1);
+
+    const report = await m.collectGarbage({ graceMs: 0 });
+    assert.deepEqual(collected(report), expected);
+    assert.deepEqual(report.deleted, { objects: 2, tokens: 1, uploads: 1, jobs: 1, clips: 1 });
+    const [after] = await harness.bucket.getFiles({ prefix: 'uploads/' });
+    assert.deepEqual(after.map((f) => f.name), [object('checkGcKept')]);
+    assert.equal((await uploads.doc('checkGcExpired').get()).exists, false);
+    assert.equal((await uploads.doc('checkGcExpired').collection('clips').get()).size, 0);
+  },
+
+  // Teardown removes one run's docs, subcollections, tokens and objects and
+  // leaves another run's alone; a processing run needs force
+  async 'teardown is scoped to one run'(harness, m) {
+    const seedRun = async (runId: string) => {
+      const uploadId = m.runUploadId(runId, 'upload-1');
+      const upload = harness.firestore.collection('uploads').doc(uploadId);
+      const name = m.formatClipPath({ uploadId, clipId: 'clip-1', variant: '1', ext: 'txt' });
+      await harness.withoutTriggers(async () => {
+        await upload.set({ runId, status: 'completed' });
+        await upload.collection('jobs').doc('clip-1').set({ status: 'done' });
+        await upload.collection('clips').doc('clip-1').set({ order: 1 });
+        await m.issueUploadToken({
+          token: `token-${runId}`,
+          uploadId,
+          fileStoragePath: name,
+          issuedBy: 'offline-checks',
+          runId,
+        });
+        await harness.firestore.collection(m.ROUTING_ANOMALIES_COLLECTION).add({ runId });
+        await harness.bucket.file(name).save('offline');
+      });
+      return upload;
+    };
+    await seedRun('check-run-a');
+    const other = await seedRun('check-run-b');
+    const counts = (data: Awaited<ReturnType<typeof m.findRunData>>) => ({
+      uploads: data.docs.uploads.length,
+      tokens: data.docs.storageUploadTokens.length,
+      anomalies: data.docs.routingAnomalies.length,
+      jobs: data.jobs.length,
+      clips: data.clips.length,
+      objects: data.objects.length,
+    });
+    const all = { uploads: 1, tokens: 1, anomalies: 1, jobs: 1, clips: 1, objects: 1 };
+    assert.deepEqual(counts(await m.findRunData('check-run-a')), all);
+
+    const report = await m.teardownRun('check-run-a');
+    assert.deepEqual(report.deleted, { docs: 3, jobs: 1, clips: 1, objects: 1 });
+    assert.deepEqual(counts(await m.findRunData('check-run-a')), {
+      uploads: 0,
+      tokens: 0,
+      anomalies: 0,
+      jobs: 0,
+      clips: 0,
+      objects: 0,
+    });
+    assert.deepEqual(counts(await m.findRunData('check-run-b')), all);
+
+    await harness.withoutTriggers(() => other.update({ status: 'processing' }));
+    await assert.rejects(m.teardownRun('check-run-b'), m.RunInFlightError);
+    assert.deepEqual(counts(await m.findRunData('check-run-b')), all);
+    const forced = await m.teardownRun('check-run-b', { force: true });
+    assert.deepEqual(forced.deleted, { docs: 3, jobs: 1, clips: 1, objects: 1 });
+  },
+
+  // Every library scenario parses; a bad scenario reports all its problems,
+  // and a bad workload on an upload doc is recorded before any work starts
+  async 'invalid workload scenario is rejected'(harness, m) {
+    for (const name of Object.keys(m.SCENARIO_LIBRARY)) await m.loadWorkloadScenario(name);
+    assert.equal((await m.loadWorkloadScenario('default')).stagger.jitterMs, 0);
+    assert.equal((await m.loadWorkloadScenario('linear-jitter')).stagger.jitterMs, 50);
+
+    const bad = {
+      uploads: 0,
+      stagger: { pattern: 'zigzag' },
+      delays: { render: { minMs: 10, maxMs: 5 }, typo: {} },
+    };
+    assert.throws(
+      () => m.parseWorkloadScenario(bad, 'bad'),
+      (e: unknown) => {
+        assert.ok(e instanceof m.WorkloadScenarioError);
+        assert.deepEqual(e.problems, [
+          'stagger.pattern must be one of burst, linear, random',
+          'uploads must be an integer 1-500',
+          'delays.render.minMs must not exceed maxMs',
+          'delays.typo is not a delay (expected one of render, upload, simulateFfmpeg)',
+        ]);
+        return true;
+      },
+    );
+    await assert.rejects(m.loadWorkloadScenario('no-such-scenario'), m.WorkloadScenarioError);
+
+    const upload = harness.firestore.collection('uploads').doc('checkWorkload');
+    await upload.set({ generate: false, workload: { rendersPerClip: 20 } });
+    await upload.update({ generate: true });
+    await harness.idle();
+    const snap = await upload.get();
+    assert.deepEqual(snap.get('workloadError.problems'), ['workload.rendersPerClip must be an integer 1-9']);
+    assert.equal(snap.get('status'), undefined);
+    assert.equal((await upload.collection('jobs').get()).size, 0);
+    assert.deepEqual(harness.failures(), []);
+  },
+
+  // A body that fails its schema is a 400 listing every problem
+  async 'invalid api body answers 400'(harness) {
+    const { status, body } = await apiError(
+      harness.callApi('/upload-file', { uploadId: 'checkApi400', fileIndex: -1 }),
+    );
+    assert.equal(status, 400);
+    assert.equal(body.code, 'invalid-request');
+    assert.equal(body.status, 400);
+    assert.equal(body.route, '/upload-file');
+    assert.deepEqual(body.upstream, []);
+    assert.deepEqual(body.details, {
+      problems: [
+        'body.clipId is required',
+        'body.fileIndex must be 0-9007199254740991',
+        'body.baseContent is required',
+      ],
+    });
+  },
+
+  // A failed internal call is a 502 carrying the callee's own error beneath it
+  async 'failed internal call answers 502'(harness) {
+    const { status, body } = await apiError(
+      harness.callApi('/generateClipPreviewVideo', {
+        uploadId: 'checkApi502',
+        clipId: 'bad/clip',
+        idx: 0,
+        previewVariants: 1,
+      }),
+    );
+    assert.equal(status, 502);
+    assert.equal(body.code, 'upstream-failed');
+    assert.equal(body.route, '/generateClipPreviewVideo');
+    const [upstream] = body.upstream as { route: string; status: number; code: string }[];
+    assert.equal(upstream.route, '/upload-file');
+    assert.equal(upstream.status, 400);
+    assert.equal(upstream.code, 'failed');
+  },
+
+  // A storage event delivered to the Firestore trigger is recorded as a routing anomaly
+  async 'misrouted event is recorded'(harness, m) {
+    const name = m.formatClipPath({ uploadId: 'checkMisroute', clipId: 'clip-1', variant: '1', ext: 'txt' });
+    let event!: ReturnType<typeof storageFinalizedEvent>;
+    await harness.withoutTriggers(async () => {
+      await harness.bucket.file(name).save('offline');
+      event = storageFinalizedEvent(harness.bucket.get(name)!);
+    });
+    await harness.dispatch('onUploadUpdate', event);
+    await harness.idle();
+
+    const anomalies = await harness.firestore
+      .collection(m.ROUTING_ANOMALIES_COLLECTION)
+      .where('eventId', '==', event.id)
+      .get();
+    assert.equal(anomalies.size, 1);
+    const anomaly = anomalies.docs[0];
+    assert.equal(anomaly.get('functionName'), 'onUploadUpdate');
+    assert.equal(anomaly.get('expectedProvider'), 'firestore');
+    assert.equal((await harness.firestore.collection('uploads').doc('checkMisroute').get()).exists, false);
+  },
+
+  // redispatch hands the event to the finalize trigger, which verifies the file
+  async 'misrouted event is redispatched'(harness, m) {
+    const uploadId = 'checkRedispatch';
+    const name = m.formatClipPath({ uploadId, clipId: 'clip-1', variant: '1', ext: 'txt' });
+    let event!: ReturnType<typeof storageFinalizedEvent>;
+    await harness.withoutTriggers(async () => {
+      await m.issueUploadToken({
+        token: 'token-check-redispatch',
+        uploadId,
+        fileStoragePath: name,
+        issuedBy: 'offline-checks',
+      });
+      await harness.bucket.file(name).save('offline', {
+        metadata: { metadata: { uploadId, uploadToken: 'token-check-redispatch' } },
+      });
+      event = storageFinalizedEvent(harness.bucket.get(name)!);
+    });
+    m.setMisroutePolicy('redispatch');
+    try {
+      await harness.dispatch('onUploadUpdate', event);
+      await harness.idle();
+    } finally {
+      m.setMisroutePolicy();
+    }
+
+    const anomaly = (await harness.firestore.collection(m.ROUTING_ANOMALIES_COLLECTION).get()).docs[0];
+    assert.equal(anomaly.get('resolution'), 'redispatch');
+    assert.equal(anomaly.get('redispatchedTo'), 'onUploadFileFinalize');
+    const upload = await harness.firestore.collection('uploads').doc(uploadId).get();
+    assert.deepEqual(verifiedUploads(upload), [name]);
+    assert.deepEqual(harness.failures(), []);
+  },
+
+  // dead-letter stores the envelope by event id and returns without throwing
+  async 'misrouted event is dead-lettered'(harness, m) {
+    const name = m.formatClipPath({ uploadId: 'checkDeadLetter', clipId: 'clip-1', variant: '1', ext: 'txt' });
+    let event!: ReturnType<typeof storageFinalizedEvent>;
+    await harness.withoutTriggers(async () => {
+      await harness.bucket.file(name).save('offline');
+      event = storageFinalizedEvent(harness.bucket.get(name)!);
+    });
+    m.setMisroutePolicy('dead-letter');
+    try {
+      await harness.dispatch('onUploadUpdate', event);
+      await harness.dispatch('onUploadUpdate', event);
+      await harness.idle();
+    } finally {
+      m.setMisroutePolicy();
+    }
+
+    const letters = await harness.firestore.collection(m.MISROUTED_EVENTS_COLLECTION).get();
+    assert.deepEqual(letters.docs.map((d) => d.id), [event.id]);
+    assert.equal(letters.docs[0].get('actualProvider'), 'storage');
+    assert.equal(letters.docs[0].get('reason'), 'policy');
+    assert.deepEqual(harness.failures(), []);
+  },
+
+  // An unknown MISROUTE_POLICY falls back to passthrough instead of failing the trigger
+  async 'invalid misroute policy falls back to the default'(harness, m) {
+    assert.throws(() => m.setMisroutePolicy('bounce'), /Unknown misroute policy/);
+    const name = m.formatClipPath({ uploadId: 'checkBadPolicy', clipId: 'clip-1', variant: '1', ext: 'txt' });
+    let event!: ReturnType<typeof storageFinalizedEvent>;
+    await harness.withoutTriggers(async () => {
+      await harness.bucket.file(name).save('offline');
+      event = storageFinalizedEvent(harness.bucket.get(name)!);
+    });
+    const previous = process.env.MISROUTE_POLICY;
+    process.env.MISROUTE_POLICY = 'bounce';
+    m.setMisroutePolicy();
+    try {
+      await harness.dispatch('onUploadUpdate', event);
+      await harness.idle();
+    } finally {
+      if (previous === undefined) delete process.env.MISROUTE_POLICY;
+      else process.env.MISROUTE_POLICY = previous;
+      m.setMisroutePolicy();
+    }
+
+    const anomaly = (await harness.firestore.collection(m.ROUTING_ANOMALIES_COLLECTION).get()).docs[0];
+    assert.equal(anomaly.get('resolution'), 'passthrough');
+  },
+};
+
+async function main() {
+  const harness = await OfflineHarness.create();
+  const m = await loadModules();
+  const only = process.argv[2];
+  let ran = 0;
+
+  for (const [name, check] of Object.entries(checks)) {
+    if (only && !name.includes(only)) continue;
+    harness.reset();
+    try {
+      await check(harness, m);
+      console.log(`✅ ${name}`);
+    } catch (e) {
+      console.error(`❌ ${name}`);
+      throw e;
+    }
+    ran++;
+  }
+  if (!ran) throw new Error(`No check matches "${only}"`);
+  console.log(`${ran} offline checks passed`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,416 @@
+import admin from 'firebase-admin';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+// Importing createDoc also points the Admin SDK at the emulators.
+import { createUploadDocs } from './createDoc';
+import { ROUTING_ANOMALIES_COLLECTION } from '../src/routing-guard';
+import { teardownRun } from '../src/run-data';
+import { resolveRunId } from '../src/run-scope';
+import { PATH_ANOMALIES_COLLECTION, uploadPrefix } from '../src/storage-paths';
+import { loadWorkloadScenario } from '../src/workload-scenario';
+import type { WorkloadScenario } from '../src/workload-scenario';
+
+interface RunnerOptions {
+  iterations: number;
+  parallel: number;
+  seed: string;
+  // Library name or scenario JSON path, resolved once in main()
+  scenario: string;
+  stopOnFailure: boolean;
+  outDir: string;
+  settleQuietMs: number;
+  settleTimeoutMs: number;
+}
+
+interface IterationResult {
+  iteration: number;
+  runId: string;
+  uploadIds: string[];
+  settled: boolean;
+  durationMs: number;
+  anomalies: number;
+  anomalyIds: string[];
+  pathAnomalies: number;
+  filesUploaded: number;
+  filesVerified: number;
+  tokensIssued: number;
+  tokensConsumed: number;
+  failures: string[];
+  error?: string;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+// Run IDs already torn down by this invocation
+const clearedRuns = new Set<string>();
+
+function parseArgs(argv: string[]): RunnerOptions {
+  const opts: RunnerOptions = {
+    iterations: 100,
+    parallel: 1,
+    seed: process.env.TEST_SEED || '12345',
+    scenario: process.env.WORKLOAD_SCENARIO || 'default',
+    stopOnFailure: false,
+    outDir: 'race-results',
+    settleQuietMs: 3000,
+    settleTimeoutMs: 60000,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const eq = argv[i].indexOf('=');
+    const flag = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+    const positiveInt = () => {
+      const n = Number(value());
+      if (!Number.isInteger(n) || n < 1) {
+        throw new Error(`${flag} expects a positive integer`);
+      }
+      return n;
+    };
+
+    switch (flag) {
+      case '--iterations':
+        opts.iterations = positiveInt();
+        break;
+      case '--parallel':
+        opts.parallel = positiveInt();
+        break;
+      case '--seed':
+        opts.seed = value();
+        break;
+      case '--scenario':
+        opts.scenario = value();
+        break;
+      case '--stop-on-failure':
+        opts.stopOnFailure = true;
+        break;
+      case '--out-dir':
+        opts.outDir = value();
+        break;
+      case '--settle-quiet-ms':
+        opts.settleQuietMs = positiveInt();
+        break;
+      case '--settle-timeout-ms':
+        opts.settleTimeoutMs = positiveInt();
+        break;
+      default:
+        throw new Error(`Unknown arg: ${argv[i]}`);
+    }
+  }
+  return opts;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function listUploadedFiles(uploadIds: string[]): Promise<string[]> {
+  const bucket = admin.storage().bucket();
+  const lists = await Promise.all(
+    uploadIds.map(async (id) => {
+      const [files] = await bucket.getFiles({ prefix: uploadPrefix(id) });
+      return files.map((f) => f.name);
+    }),
+  );
+  return lists.flat();
+}
+
+async function countVerified(uploadIds: string[]): Promise<number> {
+  const snaps = await Promise.all(
+    uploadIds.map((id) => admin.firestore().doc(`uploads/${id}`).get()),
+  );
+  return snaps.reduce(
+    (sum, snap) => sum + (snap.get('verifiedUploads')?.length ?? 0),
+    0,
+  );
+}
+
+// The triggers run detached from createDoc, so "settled" means neither the
+// bucket nor the upload docs changed for settleQuietMs.
+async function waitForSettle(
+  uploadIds: string[],
+  opts: RunnerOptions,
+): Promise<boolean> {
+  const startedAt = Date.now();
+  let lastSignature = '';
+  let lastChangeAt = startedAt;
+
+  while (Date.now() - startedAt < opts.settleTimeoutMs) {
+    const [files, verified] = await Promise.all([
+      listUploadedFiles(uploadIds),
+      countVerified(uploadIds),
+    ]);
+    const signature = `${files.length}:${verified}`;
+    if (signature !== lastSignature) {
+      lastSignature = signature;
+      lastChangeAt = Date.now();
+    } else if (
+      files.length > 0 &&
+      Date.now() - lastChangeAt >= opts.settleQuietMs
+    ) {
+      return true;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+  return false;
+}
+
+async function collectTokens(
+  uploadIds: string[],
+): Promise<{ issued: number; consumed: number }> {
+  const col = admin.firestore().collection('storageUploadTokens');
+  const snaps = await Promise.all(
+    uploadIds.map((id) =>
+      col
+        .where('fileStoragePath', '>=', uploadPrefix(id))
+        .where('fileStoragePath', '<', `${uploadPrefix(id)}\uf8ff`)
+        .get(),
+    ),
+  );
+  const docs = snaps.flatMap((s) => s.docs);
+  return {
+    issued: docs.length,
+    consumed: docs.filter((d) => d.get('isConsumed') === true).length,
+  };
+}
+
+// Routing anomalies whose event carried no readable run ID (misrouted
+// protobuf events), recorded since this invocation started. Filtered in
+// memory: the query would otherwise need a composite index.
+async function unattributedAnomalies(since: Date): Promise<string[]> {
+  const snap = await admin
+    .firestore()
+    .collection(ROUTING_ANOMALIES_COLLECTION)
+    .where('runId', '==', null)
+    .get();
+  return snap.docs
+    .filter((d) => {
+      const detectedAt = d.get('detectedAt') as admin.firestore.Timestamp | undefined;
+      return !detectedAt || detectedAt.toMillis() >= since.getTime();
+    })
+    .map((d) => d.id);
+}
+
+// RUN_ID gives every iteration the same run; an anomaly stamped with another
+// iteration belongs to that one. Path anomalies carry it as a string.
+function belongsTo(doc: admin.firestore.QueryDocumentSnapshot, iteration: number): boolean {
+  const recorded = doc.get('iteration') as number | string | null | undefined;
+  return recorded === undefined || recorded === null || Number(recorded) === iteration;
+}
+
+async function runIteration(
+  iteration: number,
+  opts: RunnerOptions,
+  scenario: WorkloadScenario,
+): Promise<IterationResult> {
+  const startedAt = Date.now();
+  const result: IterationResult = {
+    iteration,
+    // Every doc, token and object the iteration creates carries this ID
+    runId: resolveRunId({ iteration, seed: opts.seed }),
+    uploadIds: [],
+    settled: false,
+    durationMs: 0,
+    anomalies: 0,
+    anomalyIds: [],
+    pathAnomalies: 0,
+    filesUploaded: 0,
+    filesVerified: 0,
+    tokensIssued: 0,
+    tokensConsumed: 0,
+    failures: [],
+  };
+
+  try {
+    // A seeded run ID repeats on every invocation; clear what an earlier
+    // invocation left under it so its docs and anomalies are not counted here.
+    // Once per run ID, since RUN_ID gives every iteration the same one.
+    if (!clearedRuns.has(result.runId)) {
+      clearedRuns.add(result.runId);
+      const cleared = await teardownRun(result.runId, { force: true });
+      if (cleared.errors.length) {
+        throw new Error(`could not clear earlier data for run ${result.runId}`);
+      }
+    }
+    result.uploadIds = await createUploadDocs({
+      iteration,
+      seed: opts.seed,
+      runId: result.runId,
+      scenario,
+    });
+    result.settled = await waitForSettle(result.uploadIds, opts);
+
+    const [anomalySnap, pathAnomalySnap, files, verified, tokens] = await Promise.all([
+      admin.firestore().collection(ROUTING_ANOMALIES_COLLECTION).where('runId', '==', result.runId).get(),
+      admin.firestore().collection(PATH_ANOMALIES_COLLECTION).where('runId', '==', result.runId).get(),
+      listUploadedFiles(result.uploadIds),
+      countVerified(result.uploadIds),
+      collectTokens(result.uploadIds),
+    ]);
+
+    const anomalies = anomalySnap.docs.filter((d) => belongsTo(d, iteration));
+    result.anomalies = anomalies.length;
+    result.anomalyIds = anomalies.map((d) => d.id);
+    result.pathAnomalies = pathAnomalySnap.docs.filter((d) => belongsTo(d, iteration)).length;
+    result.filesUploaded = files.length;
+    result.filesVerified = verified;
+    result.tokensIssued = tokens.issued;
+    result.tokensConsumed = tokens.consumed;
+
+    if (!result.settled) {
+      result.failures.push(
+        `work did not settle within ${opts.settleTimeoutMs}ms`,
+      );
+    }
+    if (result.anomalies > 0) {
+      result.failures.push(`${result.anomalies} routing anomalies recorded`);
+    }
+    if (result.pathAnomalies > 0) {
+      result.failures.push(`${result.pathAnomalies} malformed storage paths recorded`);
+    }
+    if (result.tokensConsumed < result.filesUploaded) {
+      result.failures.push(
+        `${result.filesUploaded - result.tokensConsumed} uploaded files never consumed their token`,
+      );
+    }
+  } catch (e) {
+    result.error = (e as Error).message;
+    result.failures.push(`runner error: ${result.error}`);
+  }
+
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toJUnit(
+  results: IterationResult[],
+  unattributedIds: string[],
+  opts: RunnerOptions,
+): string {
+  const failed =
+    results.filter((r) => r.failures.length > 0).length +
+    (unattributedIds.length ? 1 : 0);
+  const tests = results.length + 1;
+  const totalSeconds =
+    results.reduce((sum, r) => sum + r.durationMs, 0) / 1000;
+  const cases = results.map((r) => {
+    const name = `iteration ${r.iteration}`;
+    const attrs = `classname="race-conditions.seed-${escapeXml(opts.seed)}" name="${name}" time="${(r.durationMs / 1000).toFixed(3)}"`;
+    if (!r.failures.length) return `    <testcase ${attrs}/>`;
+    const message = escapeXml(r.failures.join('; '));
+    const detail = escapeXml(JSON.stringify(r, null, 2));
+    return [
+      `    <testcase ${attrs}>`,
+      `      <failure message="${message}">${detail}</failure>`,
+      '    </testcase>',
+    ].join('\n');
+  });
+  // Anomalies with no run ID still fail the run, under their own case.
+  const unattributedAttrs = `classname="race-conditions.seed-${escapeXml(opts.seed)}" name="unattributed anomalies" time="0.000"`;
+  cases.push(
+    unattributedIds.length
+      ? [
+          `    <testcase ${unattributedAttrs}>`,
+          `      <failure message="${unattributedIds.length} routing anomalies recorded without a run ID">${escapeXml(JSON.stringify(unattributedIds, null, 2))}</failure>`,
+          '    </testcase>',
+        ].join('\n')
+      : `    <testcase ${unattributedAttrs}/>`,
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${tests}" failures="${failed}" time="${totalSeconds.toFixed(3)}">`,
+    `  <testsuite name="race-conditions" tests="${tests}" failures="${failed}" time="${totalSeconds.toFixed(3)}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const startedAt = new Date();
+  console.log('[raceTest] options', opts);
+  // Fail on a bad scenario before any iteration starts
+  const scenario = await loadWorkloadScenario(opts.scenario);
+
+  const results: IterationResult[] = [];
+  let next = 1;
+  let stop = false;
+
+  // Simple worker pool: each worker pulls the next iteration number.
+  const worker = async () => {
+    while (!stop && next <= opts.iterations) {
+      const iteration = next++;
+      console.log(`🔄 Iteration ${iteration}/${opts.iterations}`);
+      const result = await runIteration(iteration, opts, scenario);
+      results.push(result);
+
+      if (result.failures.length) {
+        console.log(`❌ Iteration ${iteration}: ${result.failures.join('; ')}`);
+        if (opts.stopOnFailure) stop = true;
+      } else {
+        console.log(
+          `✅ Iteration ${iteration}: ${result.filesVerified}/${result.filesUploaded} files verified`,
+        );
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: opts.parallel }, worker));
+
+  results.sort((a, b) => a.iteration - b.iteration);
+  const failed = results.filter((r) => r.failures.length > 0);
+  const unattributedIds = await unattributedAnomalies(startedAt);
+  if (unattributedIds.length) {
+    console.log(
+      `❌ ${unattributedIds.length} routing anomalies recorded without a run ID`,
+    );
+  }
+  const summary = {
+    seed: opts.seed,
+    scenario: scenario.name,
+    iterationsRequested: opts.iterations,
+    iterationsRun: results.length,
+    parallel: opts.parallel,
+    stoppedEarly: results.length < opts.iterations,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    passed: results.length - failed.length,
+    failed: failed.length,
+    totalAnomalies:
+      results.reduce((sum, r) => sum + r.anomalies, 0) +
+      unattributedIds.length,
+    unattributedAnomalies: unattributedIds.length,
+    unattributedAnomalyIds: unattributedIds,
+    failedIterations: failed.map((r) => r.iteration),
+    results,
+  };
+
+  await fs.mkdir(opts.outDir, { recursive: true });
+  const summaryPath = path.join(opts.outDir, 'summary.json');
+  const junitPath = path.join(opts.outDir, 'junit.xml');
+  await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2));
+  await fs.writeFile(junitPath, toJUnit(results, unattributedIds, opts));
+
+  console.log(JSON.stringify({ ...summary, results: undefined }, null, 2));
+  console.log(`📄 Wrote ${summaryPath} and ${junitPath}`);
+
+  if (failed.length || unattributedIds.length) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+// Importing createDoc also points the Admin SDK at the emulators
+import './createDoc';
+import type { FailedWorkKind } from '../src/failed-work';
+
+// Re-run work that exhausted its retries (see src/failed-work.ts):
+//   cd functions && npx ts-node scripts/replayFailedWork.ts --kind render-upload
+// Without --id only pending entries are replayed; --id replays those entries
+// whatever their status.
+
+const FAILED_WORK_KINDS: FailedWorkKind[] = ['render-upload', 'preview-upload', 'api-upload-file'];
+
+interface ReplayOptions {
+  ids: string[];
+  kind?: FailedWorkKind;
+  uploadId?: string;
+  limit?: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): ReplayOptions {
+  const opts: ReplayOptions = { ids: [], dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const eq = argv[i].indexOf('=');
+    const flag = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+
+    switch (flag) {
+      case '--id':
+        opts.ids.push(...value().split(',').map((id) => id.trim()).filter(Boolean));
+        break;
+      case '--kind': {
+        const kind = value();
+        if (!FAILED_WORK_KINDS.includes(kind as FailedWorkKind)) {
+          throw new Error(
+            `Unknown failed work kind "${kind}" (expected one of ${FAILED_WORK_KINDS.join(', ')})`,
+          );
+        }
+        opts.kind = kind as FailedWorkKind;
+        break;
+      }
+      case '--upload':
+        opts.uploadId = value();
+        break;
+      case '--limit': {
+        const n = Number(value());
+        if (!Number.isInteger(n) || n < 1) throw new Error('--limit expects a positive integer');
+        opts.limit = n;
+        break;
+      }
+      case '--dry-run':
+        opts.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown arg: ${argv[i]}`);
+    }
+  }
+  return opts;
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  // Loading the functions registers their replay handlers
+  await import('../src/index');
+  const { replayFailedWork } = await import('../src/failed-work');
+
+  const report = await replayFailedWork(opts);
+  const outcomes: Record<string, number> = {};
+  for (const r of report) outcomes[r.outcome] = (outcomes[r.outcome] ?? 0) + 1;
+  console.log(JSON.stringify({ dryRun: opts.dryRun, outcomes, entries: report }, null, 2));
+
+  if (report.some((r) => r.outcome === 'replay-failed')) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+// Importing createDoc also points the Admin SDK at the emulators
+import './createDoc';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { findRunData, RUN_SCOPED_COLLECTIONS, teardownRun } from '../src/run-data';
+import { isValidRunId } from '../src/run-scope';
+
+// List or remove everything one run created (see src/run-scope.ts):
+//   cd functions && npx ts-node scripts/runData.ts --run seed-12345-iter-3
+//   cd functions && npx ts-node scripts/runData.ts --run seed-12345-iter-3 --teardown
+// --out writes the full docs and object metadata when listing.
+
+interface RunDataOptions {
+  runId: string;
+  teardown: boolean;
+  dryRun: boolean;
+  force: boolean;
+  out?: string;
+}
+
+function parseArgs(argv: string[]): RunDataOptions {
+  const opts: RunDataOptions = {
+    runId: process.env.RUN_ID ?? '',
+    teardown: false,
+    dryRun: false,
+    force: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const eq = argv[i].indexOf('=');
+    const flag = eq === -1 ? argv[i] : argv[i].slice(0, eq);
+    const inline = eq === -1 ? undefined : argv[i].slice(eq + 1);
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${flag}`);
+      return v;
+    };
+
+    switch (flag) {
+      case '--run':
+        opts.runId = value();
+        break;
+      case '--teardown':
+        opts.teardown = true;
+        break;
+      case '--dry-run':
+        opts.dryRun = true;
+        break;
+      case '--force':
+        opts.force = true;
+        break;
+      case '--out':
+        opts.out = value();
+        break;
+      default:
+        throw new Error(`Unknown arg: ${argv[i]}`);
+    }
+  }
+  if (!isValidRunId(opts.runId)) {
+    throw new Error(`--run (or RUN_ID) must be a run ID, got "${opts.runId}"`);
+  }
+  return opts;
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+
+  if (opts.teardown) {
+    const report = await teardownRun(opts.runId, opts);
+    console.log(JSON.stringify(report, null, 2));
+    if (report.errors.length) process.exitCode = 1;
+    return;
+  }
+
+  const data = await findRunData(opts.runId);
+  if (opts.out) {
+    await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+    await fs.writeFile(opts.out, JSON.stringify(data, null, 2));
+  }
+  const docs: Record<string, string[]> = {};
+  for (const collection of RUN_SCOPED_COLLECTIONS) {
+    docs[collection] = data.docs[collection].map((d) => d.path);
+  }
+  console.log(
+    JSON.stringify(
+      {
+        runId: data.runId,
+        docs,
+        jobs: data.jobs.map((d) => d.path),
+        clips: data.clips.map((d) => d.path),
+        objects: data.objects.map((o) => o.name),
+      },
+      null,
+      2,
+    ),
+  );
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import { OfflineHarness } from '../src/harness';
+
+// Drive one upload through the triggers without the emulators:
+//   cd functions && npx ts-node scripts/runOffline.ts
+async function main() {
+  const harness = await OfflineHarness.create();
+  const { ffmpegPool } = await import('../src/process-pool');
+  const upload = harness.firestore.collection('uploads').doc('offlineUpload');
+
+  await upload.set({ generate: false, seed: process.env.TEST_SEED ?? 'offline' });
+  await upload.update({ generate: true });
+  await harness.idle();
+
+  const snap = await upload.get();
+  const [files] = await harness.bucket.getFiles({ prefix: 'uploads/' });
+  const tokens = await harness.firestore.collection('storageUploadTokens').get();
+  const anomalies = await harness.firestore.collection('routingAnomalies').get();
+
+  const summary = {
+    dispatched: harness.dispatched.length,
+    failures: harness.failures().map((r) => ({
+      functionName: r.functionName,
+      error: r.error?.message,
+    })),
+    filesUploaded: files.length,
+    filesVerified: (snap.get('verifiedUploads') as string[] | undefined)?.length ?? 0,
+    tokensIssued: tokens.size,
+    tokensConsumed: tokens.docs.filter((d) => d.get('isConsumed')).length,
+    routingAnomalies: anomalies.size,
+    status: snap.get('status') ?? null,
+    processing: snap.get('processing') ?? null,
+    stitch: snap.get('stitch.status') ?? null,
+    ffmpegPool: ffmpegPool.metrics(),
+  };
+  console.log(JSON.stringify(summary, null, 2));
+
+  if (summary.failures.length || summary.routingAnomalies) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
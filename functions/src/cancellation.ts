@@ -0,0 +1,86 @@
+import { logger } from './correlation';
+
+// Why a processing run was cancelled, recorded as cancelReason on the upload doc.
+//   generate-off      generate flipped true -> false
+//   cancel-requested  cancelRequested set on the upload doc
+//   superseded        a new generate run started before this one finished
+export type CancelReason = 'generate-off' | 'cancel-requested' | 'superseded';
+
+// Thrown (or used as the abort reason) wherever cancelled work stops.
+export class CancelledError extends Error {
+  constructor(
+    readonly uploadId: string | null,
+    readonly reason: CancelReason,
+  ) {
+    super(`upload ${uploadId ?? '(unknown)'} cancelled (${reason})`);
+    this.name = 'CancelledError';
+  }
+}
+
+// The in-flight run of each upload in this worker. Handlers reached through
+// internal calls look their signal up by uploadId, so it needs no threading
+// through request bodies.
+const runs = new Map<string, AbortController>();
+
+// Register a new run, aborting any earlier run of the same upload.
+export function beginRun(uploadId: string): AbortSignal {
+  runs.get(uploadId)?.abort(new CancelledError(uploadId, 'superseded'));
+  const controller = new AbortController();
+  runs.set(uploadId, controller);
+  return controller.signal;
+}
+
+// Forget the run once its work has settled (unless a newer run replaced it).
+export function endRun(uploadId: string, signal: AbortSignal): void {
+  if (runs.get(uploadId)?.signal === signal) runs.delete(uploadId);
+}
+
+export function runSignal(uploadId: string): AbortSignal | undefined {
+  return runs.get(uploadId)?.signal;
+}
+
+// Abort the upload's run in this worker; false when none is in flight here.
+export function cancelRun(uploadId: string, reason: CancelReason): boolean {
+  const controller = runs.get(uploadId);
+  if (!controller) return false;
+  runs.delete(uploadId);
+  controller.abort(new CancelledError(uploadId, reason));
+  logger.info('processing run aborted', { uploadId, reason });
+  return true;
+}
+
+export function isCancelled(error: unknown): error is CancelledError {
+  return error instanceof CancelledError;
+}
+
+export function cancellationError(signal: AbortSignal): CancelledError {
+  return isCancelled(signal.reason)
+    ? signal.reason
+    : new CancelledError(null, 'cancel-requested');
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw cancellationError(signal);
+}
+
+// Settle with the promise, or reject as soon as the signal aborts. The
+// underlying work is not stopped; use it for steps with no abort hook of
+// their own (Storage uploads, Firestore writes).
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(cancellationError(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(cancellationError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,136 @@
+import admin from 'firebase-admin';
+import { getDb } from './services';
+
+// Which clips an upload has and how many preview variants each one gets.
+export interface ClipDefinition {
+  clipId: string;
+  index: number;
+  sourceObject: string | null;
+  previewVariants: number;
+}
+
+export const DEFAULT_CLIP_IDS = ['clip-1', 'clip-2', 'clip-3'];
+
+// fileIndex is derived as clipIndex * 10 + variant, so cap below 10.
+export const MAX_PREVIEW_VARIANTS = 9;
+export const MAX_CLIPS = 50;
+
+const CLIP_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+export class ClipDefinitionError extends Error {
+  constructor(
+    readonly uploadId: string,
+    readonly problems: string[],
+  ) {
+    super(`Invalid clip definition for ${uploadId}: ${problems.join('; ')}`);
+    this.name = 'ClipDefinitionError';
+  }
+}
+
+interface RawClip {
+  clipId?: unknown;
+  id?: unknown;
+  sourceObject?: unknown;
+  previewVariants?: unknown;
+  order?: unknown;
+}
+
+function validateClips(
+  uploadId: string,
+  raw: RawClip[],
+  defaultVariants: number,
+): ClipDefinition[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  if (!raw.length) problems.push('at least one clip is required');
+  if (raw.length > MAX_CLIPS) problems.push(`at most ${MAX_CLIPS} clips allowed`);
+
+  const clips = raw.map((clip, index): ClipDefinition => {
+    const clipId = clip.clipId ?? clip.id;
+    const where = `clips[${index}]`;
+    if (typeof clipId !== 'string' || !CLIP_ID_PATTERN.test(clipId)) {
+      problems.push(`${where}.clipId must match ${CLIP_ID_PATTERN}`);
+    } else if (seen.has(clipId)) {
+      problems.push(`${where}.clipId "${clipId}" is duplicated`);
+    } else {
+      seen.add(clipId);
+    }
+
+    const variants = clip.previewVariants ?? defaultVariants;
+    if (
+      typeof variants !== 'number' ||
+      !Number.isInteger(variants) ||
+      variants < 1 ||
+      variants > MAX_PREVIEW_VARIANTS
+    ) {
+      problems.push(
+        `${where}.previewVariants must be an integer 1-${MAX_PREVIEW_VARIANTS}`,
+      );
+    }
+
+    const source = clip.sourceObject ?? null;
+    if (source !== null && (typeof source !== 'string' || !source)) {
+      problems.push(`${where}.sourceObject must be a non-empty string`);
+    }
+
+    return {
+      clipId: clipId as string,
+      index,
+      sourceObject: source as string | null,
+      previewVariants: variants as number,
+    };
+  });
+
+  if (problems.length) throw new ClipDefinitionError(uploadId, problems);
+  return clips;
+}
+
+// Resolve the clip list for an upload. Precedence: the optional
+// uploads/{uploadId}/clips subcollection (ordered by `order`, then id), then a
+// `clips` array on the upload doc, then DEFAULT_CLIP_IDS. A `previewVariants`
+// field on the upload doc sets the default for every clip.
+export async function loadClipDefinitions(
+  uploadId: string,
+  opts: { uploadData?: admin.firestore.DocumentData; defaultVariants: number },
+): Promise<ClipDefinition[]> {
+  const uploadRef = getDb().collection('uploads').doc(uploadId);
+  const uploadData = opts.uploadData ?? (await uploadRef.get()).data() ?? {};
+  const defaultVariants = uploadData.previewVariants ?? opts.defaultVariants;
+
+  const sub = await uploadRef.collection('clips').get();
+  let raw: RawClip[];
+  if (!sub.empty) {
+    // The doc id is the clip id; a differing clipId field is a typo, not an override.
+    const mismatched = sub.docs.filter(
+      (d) => d.get('clipId') !== undefined && d.get('clipId') !== d.id,
+    );
+    if (mismatched.length) {
+      throw new ClipDefinitionError(
+        uploadId,
+        mismatched.map(
+          (d) => `clips/${d.id}.clipId "${d.get('clipId')}" must match the document id`,
+        ),
+      );
+    }
+    raw = sub.docs
+      .map((d) => ({ ...d.data(), clipId: d.id }) as RawClip)
+      .sort((a, b) => {
+        const ao = typeof a.order === 'number' ? a.order : Infinity;
+        const bo = typeof b.order === 'number' ? b.order : Infinity;
+        return ao - bo || String(a.clipId).localeCompare(String(b.clipId));
+      });
+  } else if (uploadData.clips !== undefined) {
+    if (!Array.isArray(uploadData.clips)) {
+      throw new ClipDefinitionError(uploadId, ['clips must be an array']);
+    }
+    // Plain string entries are shorthand for { clipId }.
+    raw = uploadData.clips.map((c: unknown) =>
+      typeof c === 'string' ? { clipId: c } : ((c ?? {}) as RawClip),
+    );
+  } else {
+    raw = DEFAULT_CLIP_IDS.map((clipId) => ({ clipId }));
+  }
+
+  return validateClips(uploadId, raw, defaultVariants);
+}
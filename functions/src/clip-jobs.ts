@@ -0,0 +1,206 @@
+import admin from 'firebase-admin';
+import { logger } from './correlation';
+import { getDb } from './services';
+import type { ClipDefinition } from './clip-definitions';
+
+export type ClipJobStatus =
+  | 'queued'
+  | 'running'
+  | 'uploading'
+  | 'succeeded'
+  | 'failed';
+
+// failed -> running is a retry and counts as a new attempt.
+const TRANSITIONS: Record<ClipJobStatus, ClipJobStatus[]> = {
+  queued: ['running', 'failed'],
+  running: ['uploading', 'failed'],
+  uploading: ['succeeded', 'failed'],
+  succeeded: [],
+  failed: ['running'],
+};
+
+// Timestamp field stamped when a job enters each state.
+const STATUS_TIMESTAMPS: Record<ClipJobStatus, string> = {
+  queued: 'queuedAt',
+  running: 'startedAt',
+  uploading: 'uploadingAt',
+  succeeded: 'finishedAt',
+  failed: 'finishedAt',
+};
+
+export interface ClipJobError {
+  message: string;
+  phase: ClipJobStatus;
+  stack?: string;
+}
+
+export interface UploadProgress {
+  total: number;
+  queued: number;
+  running: number;
+  uploading: number;
+  succeeded: number;
+  failed: number;
+  percentComplete: number;
+}
+
+export function isTerminal(status: ClipJobStatus): boolean {
+  return status === 'succeeded' || status === 'failed';
+}
+
+function uploadRef(uploadId: string) {
+  return getDb().collection('uploads').doc(uploadId);
+}
+
+export function clipJobRef(uploadId: string, clipId: string) {
+  return uploadRef(uploadId).collection('jobs').doc(clipId);
+}
+
+function rollUp(statuses: ClipJobStatus[]): UploadProgress {
+  const progress: UploadProgress = {
+    total: statuses.length,
+    queued: 0,
+    running: 0,
+    uploading: 0,
+    succeeded: 0,
+    failed: 0,
+    percentComplete: 0,
+  };
+  for (const status of statuses) progress[status]++;
+  progress.percentComplete = statuses.length
+    ? Math.round(((progress.succeeded + progress.failed) / statuses.length) * 100)
+    : 0;
+  return progress;
+}
+
+// Statuses of every job under the upload, with `overrides` applied on top.
+async function jobStatuses(
+  tx: admin.firestore.Transaction,
+  uploadId: string,
+  overrides: Map<string, ClipJobStatus>,
+): Promise<ClipJobStatus[]> {
+  const snap = await tx.get(uploadRef(uploadId).collection('jobs'));
+  const statuses = new Map<string, ClipJobStatus>();
+  snap.docs.forEach((d) => statuses.set(d.id, d.get('status')));
+  overrides.forEach((status, clipId) => statuses.set(clipId, status));
+  return [...statuses.values()];
+}
+
+// (Re)create a queued job per clip and reset the rolled-up progress. Jobs
+// left over from a previous run for clips that no longer exist are removed.
+export async function queueClipJobs(
+  uploadId: string,
+  clips: ClipDefinition[],
+): Promise<void> {
+  await getDb().runTransaction(async (tx) => {
+    const existing = await tx.get(uploadRef(uploadId).collection('jobs'));
+    const current = new Set(clips.map((c) => c.clipId));
+    const removed = existing.docs.filter((d) => !current.has(d.id));
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    for (const doc of removed) tx.delete(doc.ref);
+    for (const clip of clips) {
+      tx.set(clipJobRef(uploadId, clip.clipId), {
+        uploadId,
+        clipId: clip.clipId,
+        clipIndex: clip.index,
+        sourceObject: clip.sourceObject,
+        previewVariants: clip.previewVariants,
+        status: 'queued',
+        attempts: 0,
+        queuedAt: now,
+        updatedAt: now,
+        outputPaths: [],
+        previewPaths: [],
+        error: null,
+      });
+    }
+    const statuses = clips.map((): ClipJobStatus => 'queued');
+    tx.set(
+      uploadRef(uploadId),
+      {
+        progress: rollUp(statuses),
+        clipDefinitionError: admin.firestore.FieldValue.delete(),
+        stitch: admin.firestore.FieldValue.delete(),
+      },
+      { merge: true },
+    );
+
+    if (removed.length) {
+      logger.info('removed clip jobs for clips no longer defined', {
+        uploadId,
+        clipIds: removed.map((d) => d.id),
+      });
+    }
+  });
+}
+
+// Move a job to `to`, validating the transition and updating the parent
+// upload's progress in the same transaction.
+export async function transitionClipJob(
+  uploadId: string,
+  clipId: string,
+  to: ClipJobStatus,
+  patch: {
+    outputPaths?: string[];
+    previewPaths?: string[];
+    error?: unknown;
+  } = {},
+): Promise<void> {
+  await getDb().runTransaction(async (tx) => {
+    const ref = clipJobRef(uploadId, clipId);
+    const job = await tx.get(ref);
+    const from = job.get('status') as ClipJobStatus | undefined;
+    if (!from) {
+      throw new Error(`Clip job ${uploadId}/${clipId} was never queued`);
+    }
+    if (!TRANSITIONS[from].includes(to)) {
+      throw new Error(`Invalid clip job transition ${from} -> ${to}`);
+    }
+    const statuses = await jobStatuses(tx, uploadId, new Map([[clipId, to]]));
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const update: admin.firestore.UpdateData<admin.firestore.DocumentData> = {
+      status: to,
+      updatedAt: now,
+      [STATUS_TIMESTAMPS[to]]: now,
+    };
+    if (to === 'running') {
+      update.attempts = admin.firestore.FieldValue.increment(1);
+      update.error = null;
+    }
+    if (patch.outputPaths?.length) {
+      update.outputPaths = admin.firestore.FieldValue.arrayUnion(
+        ...patch.outputPaths,
+      );
+    }
+    // Rendered previews in task order; the stitch stage concatenates these.
+    if (patch.previewPaths) update.previewPaths = patch.previewPaths;
+    if (to === 'failed') {
+      const err = patch.error;
+      const error: ClipJobError = {
+        message: err instanceof Error ? err.message : String(err),
+        phase: from,
+        ...(err instanceof Error && err.stack && { stack: err.stack }),
+      };
+      update.error = error;
+    }
+
+    tx.update(ref, update);
+    tx.set(uploadRef(uploadId), { progress: rollUp(statuses) }, { merge: true });
+  });
+  logger.debug?.('clip job transition', { uploadId, clipId, to });
+}
+
+// Mark a job failed unless it already reached a terminal state; used by
+// catch-all handlers that do not know how far the job got.
+export async function failClipJob(
+  uploadId: string,
+  clipId: string,
+  error: unknown,
+): Promise<void> {
+  const job = await clipJobRef(uploadId, clipId).get();
+  const status = job.get('status') as ClipJobStatus | undefined;
+  if (!status || isTerminal(status)) return;
+  await transitionClipJob(uploadId, clipId, 'failed', { error });
+}
@@ -0,0 +1,14 @@
+// Firestore collection names, kept free of imports so scripts can name a
+// collection without loading the module (and triggers) that writes it.
+
+export const UPLOADS_COLLECTION = 'uploads';
+export const UPLOAD_TOKENS_COLLECTION = 'storageUploadTokens';
+export const PROCESSED_EVENTS_COLLECTION = 'processedEvents';
+export const ROUTING_ANOMALIES_COLLECTION = 'routingAnomalies';
+export const MISROUTED_EVENTS_COLLECTION = 'misroutedEvents';
+export const PATH_ANOMALIES_COLLECTION = 'storagePathAnomalies';
+export const FAILED_WORK_COLLECTION = 'failedWork';
+
+// Subcollections under each upload doc
+export const CLIP_JOBS_SUBCOLLECTION = 'jobs';
+export const CLIPS_SUBCOLLECTION = 'clips';
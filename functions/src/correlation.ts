@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { logger as baseLogger } from 'firebase-functions';
+
+// One ID per causal chain: created when onUploadUpdate sees generate flip (or
+// taken from this header on an incoming request), then carried on internal
+// calls, object custom metadata and token docs.
+export const CORRELATION_HEADER = 'x-correlation-id';
+
+const storage = new AsyncLocalStorage<string>();
+
+export function newCorrelationId(): string {
+  return randomUUID();
+}
+
+export function currentCorrelationId(): string | undefined {
+  return storage.getStore();
+}
+
+// Run fn with `id` as the current correlation ID; a missing id starts a new chain.
+export function withCorrelation<T>(id: string | null | undefined, fn: () => T): T {
+  return storage.run(id || newCorrelationId(), fn);
+}
+
+// Spread into object custom metadata.
+export function correlationMetadata(): { correlationId?: string } {
+  const correlationId = currentCorrelationId();
+  return correlationId ? { correlationId } : {};
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+// Adds correlationId to the structured payload (the trailing plain object) or
+// appends one when the call has none.
+function withCorrelationField(args: unknown[]): unknown[] {
+  const correlationId = currentCorrelationId();
+  if (!correlationId) return args;
+  const last = args[args.length - 1];
+  if (args.length > 1 && isPlainObject(last)) {
+    return [...args.slice(0, -1), { ...last, correlationId }];
+  }
+  return [...args, { correlationId }];
+}
+
+// Drop-in for the firebase-functions logger; use this one everywhere.
+export const logger = {
+  debug: (...args: unknown[]) => baseLogger.debug(...withCorrelationField(args)),
+  log: (...args: unknown[]) => baseLogger.log(...withCorrelationField(args)),
+  info: (...args: unknown[]) => baseLogger.info(...withCorrelationField(args)),
+  warn: (...args: unknown[]) => baseLogger.warn(...withCorrelationField(args)),
+  error: (...args: unknown[]) => baseLogger.error(...withCorrelationField(args)),
+};
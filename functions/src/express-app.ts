@@ -1,7 +1,42 @@
 import admin from 'firebase-admin';
-import { logger } from 'firebase-functions';
+import {
+  CORRELATION_HEADER,
+  correlationMetadata,
+  currentCorrelationId,
+  logger,
+} from './correlation';
 import express from 'express';
 import axios from 'axios';
+import type { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { createAdapter } from 'axiosist';
+import { seededRandom } from './seeded-random';
+import { getBucket, getDb } from './services';
+import { issueUploadToken, uploadTokenId } from './upload-tokens';
+import {
+  ClipDefinitionError,
+  loadClipDefinitions,
+  MAX_PREVIEW_VARIANTS,
+} from './clip-definitions';
+import { formatClipPath, StoragePathError } from './storage-paths';
+import {
+  defineRoute,
+  InternalCallError,
+  InternalClient,
+  UpstreamCallError,
+} from './internal-client';
+import { reproFactors } from './repro-factors';
+import { withRetry } from './retry';
+import { recordFailedWork, registerFailedWorkReplay } from './failed-work';
+import {
+  delayRangeSchema,
+  readWorkloadSettings,
+  simulateDelay,
+  WorkloadScenarioError,
+  workloadSettingsSchema,
+} from './workload-scenario';
+import type { DelayRange, WorkloadSettings } from './workload-scenario';
+import { parseBody, s } from './request-schema';
+import type { Infer } from './request-schema';
 
 // Initialize Admin SDK only once.
 if (!admin.apps.length) {
@@ -28,79 +63,124 @@ class ServerRegistry {
 // Register the server
 ServerRegistry.registerServer(app);
 
-// HTTP routing interceptor service (like parent project)
-import type { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+// Preview files per clip when neither the clip nor the upload doc says otherwise
+const DEFAULT_PREVIEW_VARIANTS = 3;
+
+// /simulate-ffmpeg-processing wait when the upload's scenario sets none
+const DEFAULT_SIMULATE_FFMPEG_DELAY: DelayRange = { minMs: 50, maxMs: 250 };
 
+// Internal-call client (like parent project's routing interceptor); the
+// transport comes from INTERNAL_CALL_MODE, see internal-client.ts. With the
+// axiosist repro factor off, calls go over loopback HTTP instead.
+export const internalClient = new InternalClient({
+  name: 'api',
+  getApp: () => ServerRegistry.getServer(),
+  mode: reproFactors().axiosist ? undefined : 'loopback',
+  newInstancePerCall: reproFactors().axiosPerRequest,
+});
+
+// HTTP routing interceptor service (like parent project). Only used with the
+// routingInterceptor repro factor on: it attaches the axiosist adapter to
+// relative URLs from a request interceptor instead of a prebuilt instance.
 class HttpRoutingInterceptorService {
   constructor(axiosInstance: AxiosInstance) {
     this.setupRequestInterceptor(axiosInstance);
   }
 
   setupRequestInterceptor(axiosInstance: AxiosInstance): void {
-    const isInspectFunctions = process.execArgv.some((arg) =>
-      arg.includes('--inspect'),
+    axiosInstance.interceptors.request.use(
+      async (config: InternalAxiosRequestConfig) => {
+        const expressApp = ServerRegistry.getServer();
+        if (config.url?.startsWith('/') && expressApp) {
+          config.adapter = createAdapter(expressApp);
+          logger.debug?.('axiosist adapter', { url: config.url });
+        }
+        return config;
+      },
     );
+  }
+}
 
-    if (isInspectFunctions) {
-      axiosInstance.interceptors.request.use(
-        async (config: InternalAxiosRequestConfig) => {
-          if (config.url?.startsWith('/')) {
-            try {
-              const { createAdapter } = await import('axiosist');
-              const expressApp = ServerRegistry.getServer();
-              if (expressApp) {
-                config.adapter = createAdapter(expressApp);
-                logger.debug?.('axiosist adapter', { url: config.url });
-              }
-            } catch (error) {
-              logger.debug?.('axiosist load failed', {
-                message: (error as Error).message,
-              });
-            }
-          }
-          return config;
-        },
-      );
-    }
+// Original parent flow: NEW axios instance and NEW interceptor per request
+async function postThroughInterceptor(url: string, data: unknown) {
+  const axiosInstance = axios.create({ timeout: 30000 });
+  new HttpRoutingInterceptorService(axiosInstance);
+  const correlationId = currentCorrelationId();
+  try {
+    const response = await axiosInstance.post(url, data, {
+      headers: correlationId ? { [CORRELATION_HEADER]: correlationId } : {},
+    });
+    return response.data;
+  } catch (error) {
+    if (!axios.isAxiosError(error)) throw error;
+    throw new UpstreamCallError(
+      error.response?.status ?? 502,
+      `Internal call ${url} failed through the routing interceptor: ${error.message}`,
+      { url, mode: 'interceptor', response: error.response?.data ?? null },
+    );
   }
 }
 
-// Make API request function (exactly like parent project)
+// Make API request function (like parent project)
 interface ApiRequestOpts {
   url: string;
   data: Record<string, unknown>;
 }
 async function makeApiRequest(opts: ApiRequestOpts) {
-  // Create NEW axios instance for each request (key difference!)
-  const axiosInstance = axios.create();
-
-  // Create NEW interceptor service for each request (like parent)
-  new HttpRoutingInterceptorService(axiosInstance);
-
   logger.debug?.('api request', { url: opts.url });
 
-  return await axiosInstance.post(opts.url, opts.data);
+  if (reproFactors().routingInterceptor) {
+    return await postThroughInterceptor(opts.url, opts.data);
+  }
+  return await internalClient.post(opts.url, opts.data);
 }
 
-// Add generateAllPreviewVideosForClipsInUse endpoint (like parent project)
-app.post('/generateAllPreviewVideosForClipsInUse', async (req, res) => {
-  const { uploadId } = req.body;
+const generateAllPreviewVideosSchema = s.object({
+  uploadId: s.string(),
+  runId: s.optional(s.string()),
+  seed: s.optional(s.string()),
+});
+
+// generateAllPreviewVideosForClipsInUse endpoint (like parent project)
+async function generateAllPreviewVideosForClipsInUse(
+  body: Infer<typeof generateAllPreviewVideosSchema>,
+) {
+  const { uploadId, runId, seed } = body;
 
   logger.info('generateAllPreviewVideosForClipsInUse', { uploadId });
 
-  // Simulate getting clips in use (like parent project does) - INCREASE for bug reproduction
-  const clipsInUse = ['clip1', 'clip2', 'clip3']; // Multiple clips to stress the system
+  // Clips in use and the workload scenario's delays come from the upload doc
+  // (like parent project does)
+  const uploadData = (await getDb().collection('uploads').doc(uploadId).get()).data() ?? {};
+  let clipsInUse;
+  let workload: WorkloadSettings;
+  try {
+    clipsInUse = await loadClipDefinitions(uploadId, {
+      uploadData,
+      defaultVariants: DEFAULT_PREVIEW_VARIANTS,
+    });
+    workload = readWorkloadSettings(uploadId, uploadData);
+  } catch (error) {
+    if (!(error instanceof ClipDefinitionError || error instanceof WorkloadScenarioError)) {
+      throw error;
+    }
+    throw new InternalCallError(400, error.message, { problems: error.problems });
+  }
 
   // Trigger individual clip preview generation for each clip (like parent)
   await Promise.all(
-    clipsInUse.map(async (clipId, idx) => {
-      // Each call creates a NEW axios instance with NEW interceptor (key bug trigger!)
+    clipsInUse.map(async (clip) => {
       return makeApiRequest({
         url: '/generateClipPreviewVideo',
         data: {
           uploadId,
-          clipId,
-          idx,
+          clipId: clip.clipId,
+          idx: clip.index,
+          previewVariants: clip.previewVariants,
+          sourceObject: clip.sourceObject,
+          runId,
+          seed,
+          workload,
         },
       });
     }),
@@ -110,16 +190,23 @@ app.post('/generateAllPreviewVideosForClipsInUse', async (req, res) => {
     uploadId,
     clipCount: clipsInUse.length,
   });
-  res.json({ success: true, clipsProcessed: clipsInUse.length });
+  return { success: true, clipsProcessed: clipsInUse.length };
+}
+
+const generateClipPreviewVideoSchema = s.object({
+  uploadId: s.string(),
+  clipId: s.string(),
+  idx: s.integer({ min: 0 }),
+  previewVariants: s.optional(s.integer({ min: 1, max: MAX_PREVIEW_VARIANTS })),
+  sourceObject: s.optional(s.nullable(s.string())),
+  runId: s.optional(s.string()),
+  seed: s.optional(s.string()),
+  workload: s.optional(workloadSettingsSchema),
 });
 
-// Add generateClipPreviewVideo endpoint (like parent project)
-app.post('/generateClipPreviewVideo', async (req, res) => {
-  const { uploadId, clipId, idx } = req.body as {
-    uploadId: string;
-    clipId: string;
-    idx: number;
-  };
+// generateClipPreviewVideo endpoint (like parent project)
+async function generateClipPreviewVideo(body: Infer<typeof generateClipPreviewVideoSchema>) {
+  const { uploadId, clipId, idx, previewVariants, runId, seed, workload } = body;
 
   logger.info('generateClipPreviewVideo', { uploadId, clipId });
 
@@ -127,19 +214,23 @@ app.post('/generateClipPreviewVideo', async (req, res) => {
   // This mimics the complex nested HTTP calls that happen in the real bug
   await makeApiRequest({
     url: '/simulate-ffmpeg-processing',
-    data: { uploadId, clipId },
+    data: { uploadId, clipId, seed, delay: workload?.delays.simulateFfmpeg },
   });
 
   // This is where the actual file uploads happen (like preview video generation)
-  const filesToGenerate = 3; // Multiple files to stress the system
+  const filesToGenerate = previewVariants ?? DEFAULT_PREVIEW_VARIANTS;
   const uploads = Array.from({ length: filesToGenerate }).map(
     async (_, fileIdx) => {
       return makeApiRequest({
         url: '/upload-file',
         data: {
           uploadId,
+          clipId,
           fileIndex: idx * 100 + fileIdx, // Unique index per clip
           baseContent: `Clip ${clipId} preview file`,
+          runId,
+          seed,
+          uploadDelay: workload?.delays.upload,
         },
       });
     },
@@ -152,19 +243,28 @@ app.post('/generateClipPreviewVideo', async (req, res) => {
     filesCreated: results.length,
   });
 
-  res.json({ success: true, filesCreated: results.length });
+  return { success: true, filesCreated: results.length };
+}
+
+const simulateFfmpegProcessingSchema = s.object({
+  uploadId: s.string(),
+  clipId: s.string(),
+  seed: s.optional(s.string()),
+  // The upload's workload scenario may replace the default 50-250 ms
+  delay: s.optional(delayRangeSchema),
 });
 
-// Add ffmpeg simulation endpoint (like parent project's video processing)
-app.post('/simulate-ffmpeg-processing', async (req, res) => {
-  const { uploadId, clipId } = req.body as { uploadId: string; clipId: string };
+// ffmpeg simulation endpoint (like parent project's video processing)
+async function simulateFfmpegProcessing(body: Infer<typeof simulateFfmpegProcessingSchema>) {
+  const { uploadId, clipId, seed } = body;
 
   logger.debug?.('ffmpeg simulate start', { uploadId, clipId });
 
   // Simulate some video processing that might affect function state
   // This could potentially cause context mixing between trigger types
   // CRITICAL: Add async operations that might confuse the event context
-  await new Promise((resolve) => setTimeout(resolve, Math.random() * 200 + 50)); // Random delay
+  const rng = seededRandom(seed, uploadId, clipId, 'simulate-ffmpeg-processing');
+  await simulateDelay(body.delay ?? DEFAULT_SIMULATE_FFMPEG_DELAY, rng); // Seeded random delay
 
   // Force some module imports during processing (might affect context)
   // Removed unused imports to reduce noise
@@ -172,24 +272,42 @@ app.post('/simulate-ffmpeg-processing', async (req, res) => {
   logger.debug?.('ffmpeg mid', { uploadId, clipId });
 
   logger.debug?.('ffmpeg simulate done', { uploadId, clipId });
-  res.json({ success: true, processed: true });
+  return { success: true, processed: true };
+}
+
+const uploadFileSchema = s.object({
+  uploadId: s.string(),
+  clipId: s.string(),
+  fileIndex: s.integer({ min: 0 }),
+  baseContent: s.string({ maxLength: 4096 }),
+  runId: s.optional(s.string()),
+  seed: s.optional(s.string()),
+  uploadDelay: s.optional(delayRangeSchema),
 });
 
 // API endpoint that uploads files to Storage
-app.post('/upload-file', async (req, res) => {
-  const { uploadId, fileIndex, baseContent } = req.body;
-
-  if (!uploadId || fileIndex === undefined || !baseContent) {
-    return res.status(400).json({ error: 'Missing required fields' });
-  }
+async function uploadFileRoute(body: Infer<typeof uploadFileSchema>) {
+  const { uploadId, clipId, fileIndex, baseContent, runId, seed } = body;
 
   const fs = await import('fs/promises');
   const os = await import('os');
   const path = await import('path');
 
-  const bucket = admin.storage().bucket();
-  const rand = Math.random().toString(36).slice(2, 10);
-  const filePath = `uploads/${uploadId}-${fileIndex + 1}-${rand}.txt`;
+  const bucket = getBucket();
+  const rng = seededRandom(seed, uploadId, 'upload-file', fileIndex);
+  const rand = rng.base36(8);
+  let filePath: string;
+  try {
+    filePath = formatClipPath({
+      uploadId,
+      clipId,
+      variant: `file-${fileIndex + 1}-${rand}`,
+      ext: 'txt',
+    });
+  } catch (error) {
+    if (!(error instanceof StoragePathError)) throw error;
+    throw new InternalCallError(400, error.message);
+  }
   const content = `${baseContent} file#${fileIndex + 1} rand=${rand} @ ${new Date().toISOString()}`;
 
   const tempFilePath = path.join(
@@ -200,37 +318,72 @@ app.post('/upload-file', async (req, res) => {
 
   logger.debug?.('upload-file', { uploadId, fileIndex, filePath });
 
-  // Create a fake upload token doc in Firestore (like parent project)
-  const uploadToken = `token-${uploadId}-${fileIndex}-${Math.random().toString(36).slice(2)}`;
-  const tokenRef = admin
-    .firestore()
-    .collection('storageUploadTokens')
-    .doc(uploadToken);
-  await tokenRef.set({
-    fileStoragePath: filePath,
-    dateExpires: admin.firestore.Timestamp.fromDate(
-      new Date(Date.now() + 3600000),
-    ), // 1 hour from now
-    isConsumed: false,
-    dateCreated: admin.firestore.FieldValue.serverTimestamp(),
-  });
+  const retryContext = { uploadId, clipId, fileIndex };
+  try {
+    await simulateDelay(body.uploadDelay, rng.fork('upload-delay'));
+    // Create a fake upload token doc in Firestore (like parent project)
+    const token = uploadTokenId(uploadId, fileIndex, rng);
+    const uploadToken = await withRetry(
+      'issue upload token',
+      () =>
+        issueUploadToken({
+          token,
+          uploadId,
+          fileStoragePath: filePath,
+          issuedBy: 'upload-file',
+          runId,
+        }),
+      { context: retryContext, rng },
+    );
 
-  await bucket.upload(tempFilePath, {
-    destination: filePath,
-    metadata: {
-      contentType: 'text/plain',
-      metadata: {
-        uploadSource: 'server',
-        uploadId,
-        fileIndex: (fileIndex + 1).toString(),
-        uploadToken, // Add upload token metadata (key for parent project)
-        isPreviewVideo: 'yes',
-        originalClipId: `clip-${fileIndex}`,
-      },
-    },
-  });
+    await withRetry(
+      'upload file',
+      () =>
+        bucket.upload(tempFilePath, {
+          destination: filePath,
+          metadata: {
+            contentType: 'text/plain',
+            metadata: {
+              uploadSource: 'server',
+              uploadId,
+              fileIndex: (fileIndex + 1).toString(),
+              uploadToken, // Add upload token metadata (key for parent project)
+              isPreviewVideo: 'yes',
+              originalClipId: clipId,
+              ...(runId && { runId }),
+              ...correlationMetadata(),
+            },
+          },
+        }),
+      { context: retryContext, rng },
+    );
+  } catch (error) {
+    const failedWorkId = await recordFailedWork({
+      kind: 'api-upload-file',
+      payload: { ...body },
+      error,
+    });
+    throw new InternalCallError(503, (error as Error).message, { failedWorkId });
+  } finally {
+    await fs.unlink(tempFilePath).catch(() => undefined);
+  }
 
-  await fs.unlink(tempFilePath);
+  return { success: true, filePath };
+}
 
-  res.json({ success: true, filePath });
+internalClient.registerRoutes({
+  '/generateAllPreviewVideosForClipsInUse': defineRoute(
+    generateAllPreviewVideosSchema,
+    generateAllPreviewVideosForClipsInUse,
+  ),
+  '/generateClipPreviewVideo': defineRoute(generateClipPreviewVideoSchema, generateClipPreviewVideo),
+  '/simulate-ffmpeg-processing': defineRoute(
+    simulateFfmpegProcessingSchema,
+    simulateFfmpegProcessing,
+  ),
+  '/upload-file': defineRoute(uploadFileSchema, uploadFileRoute),
 });
+
+registerFailedWorkReplay('api-upload-file', (payload) =>
+  uploadFileRoute(parseBody(uploadFileSchema, payload, '/upload-file')),
+);
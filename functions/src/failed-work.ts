@@ -0,0 +1,158 @@
+import admin from 'firebase-admin';
+import { FAILED_WORK_COLLECTION } from './collections';
+import { currentCorrelationId, logger, withCorrelation } from './correlation';
+import { RetryExhaustedError } from './retry';
+import { getDb } from './services';
+
+// Work that used up every retry, kept with the exact payload it ran with so
+// scripts/replayFailedWork.ts can run it again.
+export { FAILED_WORK_COLLECTION };
+
+//   render-upload    runFfmpegAndUpload params (ffmpeg render + upload of one task)
+//   preview-upload   uploadFile data (trigger-side preview upload)
+//   api-upload-file  /upload-file request body
+export type FailedWorkKind = 'render-upload' | 'preview-upload' | 'api-upload-file';
+
+export type FailedWorkStatus = 'pending' | 'replayed' | 'replay-failed';
+
+export interface FailedWorkEntry {
+  kind: FailedWorkKind;
+  operation: string;
+  uploadId: string | null;
+  payload: Record<string, unknown>;
+  error: string;
+  attempts: number;
+  correlationId: string | null;
+  iteration: number | null;
+  runId: string | null;
+  status: FailedWorkStatus;
+  replayCount: number;
+  lastReplayError?: string;
+}
+
+// The stored payload is untrusted (it may predate a code change or have been
+// edited), so each handler checks it against its route's request schema.
+export type FailedWorkReplayHandler = (payload: unknown) => Promise<unknown>;
+
+// Each kind is replayed by the module that owns that work.
+const replayHandlers = new Map<FailedWorkKind, FailedWorkReplayHandler>();
+
+export function registerFailedWorkReplay(
+  kind: FailedWorkKind,
+  handler: FailedWorkReplayHandler,
+): void {
+  replayHandlers.set(kind, handler);
+}
+
+// Firestore rejects undefined values.
+function toStorable(payload: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(payload));
+}
+
+export async function recordFailedWork(opts: {
+  kind: FailedWorkKind;
+  payload: Record<string, unknown> & { uploadId?: string; iteration?: number; runId?: string };
+  error: unknown;
+}): Promise<string | null> {
+  const exhausted = opts.error instanceof RetryExhaustedError ? opts.error : null;
+  const entry: FailedWorkEntry = {
+    kind: opts.kind,
+    operation: exhausted?.operation ?? opts.kind,
+    uploadId: opts.payload.uploadId ?? null,
+    payload: toStorable(opts.payload),
+    error: opts.error instanceof Error ? opts.error.message : String(opts.error),
+    attempts: exhausted?.attempts ?? 1,
+    correlationId: currentCorrelationId() ?? null,
+    iteration: typeof opts.payload.iteration === 'number' ? opts.payload.iteration : null,
+    runId: typeof opts.payload.runId === 'string' ? opts.payload.runId : null,
+    status: 'pending',
+    replayCount: 0,
+  };
+  logger.error('work failed after retries', {
+    kind: entry.kind,
+    operation: entry.operation,
+    uploadId: entry.uploadId,
+    attempts: entry.attempts,
+    error: entry.error,
+  });
+  try {
+    const ref = await getDb()
+      .collection(FAILED_WORK_COLLECTION)
+      .add({ ...entry, failedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return ref.id;
+  } catch (e) {
+    logger.error('Failed to record failed work', {
+      kind: opts.kind,
+      e: (e as Error).message,
+    });
+    return null;
+  }
+}
+
+export interface ReplayReport {
+  id: string;
+  kind: FailedWorkKind;
+  uploadId: string | null;
+  outcome: 'replayed' | 'replay-failed' | 'skipped';
+  error?: string;
+}
+
+// Re-run pending entries (or the given ids, whatever their status) under
+// their original correlation ID. Handlers come from the functions modules,
+// so callers must have loaded them (e.g. by importing ../index).
+export async function replayFailedWork(
+  opts: {
+    ids?: string[];
+    kind?: FailedWorkKind;
+    uploadId?: string;
+    limit?: number;
+    dryRun?: boolean;
+  } = {},
+): Promise<ReplayReport[]> {
+  const col = getDb().collection(FAILED_WORK_COLLECTION);
+  let docs: admin.firestore.DocumentSnapshot[];
+  if (opts.ids?.length) {
+    docs = await Promise.all(opts.ids.map((id) => col.doc(id).get()));
+  } else {
+    let query: admin.firestore.Query = col.where('status', '==', 'pending');
+    if (opts.kind) query = query.where('kind', '==', opts.kind);
+    if (opts.uploadId) query = query.where('uploadId', '==', opts.uploadId);
+    docs = (await query.limit(opts.limit ?? 100).get()).docs;
+  }
+
+  const report: ReplayReport[] = [];
+  for (const doc of docs) {
+    const entry = doc.data() as FailedWorkEntry | undefined;
+    if (!entry) continue;
+    const handler = replayHandlers.get(entry.kind);
+    const base = { id: doc.id, kind: entry.kind, uploadId: entry.uploadId };
+    if (!handler) {
+      report.push({ ...base, outcome: 'skipped', error: `no replay handler for ${entry.kind}` });
+      continue;
+    }
+    if (opts.dryRun) {
+      report.push({ ...base, outcome: 'skipped' });
+      continue;
+    }
+
+    try {
+      await withCorrelation(entry.correlationId, () => handler(entry.payload));
+      await doc.ref.update({
+        status: 'replayed',
+        replayCount: admin.firestore.FieldValue.increment(1),
+        lastReplayAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      report.push({ ...base, outcome: 'replayed' });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      await doc.ref.update({
+        status: 'replay-failed',
+        replayCount: admin.firestore.FieldValue.increment(1),
+        lastReplayAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastReplayError: error,
+      });
+      report.push({ ...base, outcome: 'replay-failed', error });
+    }
+  }
+  return report;
+}
@@ -0,0 +1,373 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { logger } from './correlation';
+import { recordSpan } from './timeline';
+import { ffmpegPool, PoolSaturatedError } from './process-pool';
+import { isCancelled } from './cancellation';
+
+// Output format and size for rendered clip previews.
+export interface RenderPreset {
+  name: string;
+  extension: 'mp4' | 'webm';
+  contentType: string;
+  width: number;
+  height: number;
+  durationSec: number;
+  fps: number;
+  codecArgs: string[];
+}
+
+export const RENDER_PRESETS: Record<string, RenderPreset> = {
+  'mp4-240p': {
+    name: 'mp4-240p',
+    extension: 'mp4',
+    contentType: 'video/mp4',
+    width: 426,
+    height: 240,
+    durationSec: 1,
+    fps: 15,
+    codecArgs: [
+      '-c:v', 'libx264', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p',
+      '-movflags', '+faststart',
+    ],
+  },
+  'mp4-480p': {
+    name: 'mp4-480p',
+    extension: 'mp4',
+    contentType: 'video/mp4',
+    width: 854,
+    height: 480,
+    durationSec: 2,
+    fps: 24,
+    codecArgs: [
+      '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p',
+      '-movflags', '+faststart',
+    ],
+  },
+  'webm-240p': {
+    name: 'webm-240p',
+    extension: 'webm',
+    contentType: 'video/webm',
+    width: 426,
+    height: 240,
+    durationSec: 1,
+    fps: 15,
+    codecArgs: [
+      '-c:v', 'libvpx', '-deadline', 'realtime', '-cpu-used', '8',
+      '-b:v', '300k',
+    ],
+  },
+};
+
+export const DEFAULT_RENDER_PRESET = 'mp4-240p';
+
+// Preset that produced a file, judged by its extension; null for text fallbacks.
+export function presetForPath(filePath: string): RenderPreset | null {
+  const ext = filePath.slice(filePath.lastIndexOf('.') + 1);
+  return Object.values(RENDER_PRESETS).find((p) => p.extension === ext) ?? null;
+}
+
+// Kill a render that has not exited by then and fall back to the text artifact.
+export const RENDER_TIMEOUT_MS = 15000;
+
+export class RenderPresetError extends Error {
+  constructor(readonly preset: string) {
+    super(
+      `Unknown render preset "${preset}" (expected one of ${Object.keys(RENDER_PRESETS).join(', ')})`,
+    );
+    this.name = 'RenderPresetError';
+  }
+}
+
+// Per-job timeout when the caller gives none: FFMPEG_JOB_TIMEOUT_MS > default.
+// It counts from when the job gets a pool slot, not from when it was queued.
+export function ffmpegJobTimeoutMs(): number {
+  const fromEnv = Number(process.env.FFMPEG_JOB_TIMEOUT_MS);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : RENDER_TIMEOUT_MS;
+}
+
+// Pool priorities: jobs that finish work already in flight go first.
+export const JOB_PRIORITY = {
+  render: 0,
+  concat: 1,
+  probe: 2,
+} as const;
+
+// Explicit name (e.g. `previewPreset` on the upload doc) > PREVIEW_PRESET env > default.
+export function resolveRenderPreset(name?: string): RenderPreset {
+  const key = name ?? process.env.PREVIEW_PRESET ?? DEFAULT_RENDER_PRESET;
+  const preset = RENDER_PRESETS[key];
+  if (!preset) throw new RenderPresetError(key);
+  return preset;
+}
+
+// A lavfi colour source, or a local copy of the clip's source object.
+export type RenderSource =
+  | { kind: 'lavfi'; color: string }
+  | { kind: 'file'; path: string };
+
+// 'ffmpeg-disabled' is never produced here; callers use it when the
+// ffmpegLoad repro factor skips rendering. 'ffmpeg-cancelled' means the
+// caller's signal aborted, whether the job was queued or running.
+export type RenderFailure =
+  | 'ffmpeg-missing'
+  | 'ffmpeg-failed'
+  | 'ffmpeg-timeout'
+  | 'ffmpeg-queue-full'
+  | 'ffmpeg-cancelled'
+  | 'ffmpeg-disabled';
+
+export type RenderResult =
+  | { ok: true; outputPath: string; elapsedMs: number }
+  | { ok: false; reason: RenderFailure; exitCode: number | null; stderr: string };
+
+// Size and shape of a rendered file as reported by ffprobe.
+export interface MediaProbe {
+  durationSec: number | null;
+  width: number | null;
+  height: number | null;
+  sizeBytes: number | null;
+  codec: string | null;
+}
+
+interface ProcessResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  failure?: 'missing' | 'timeout' | 'queue-full' | 'cancelled';
+}
+
+// Every child process waits for a slot in the shared ffmpeg pool, then runs
+// as an `ffmpeg` span on the timeline. Aborting `signal` drops a queued job
+// and kills a running one.
+async function runProcess(
+  command: string,
+  args: string[],
+  job: { timeoutMs?: number; label?: string; priority: number; signal?: AbortSignal },
+): Promise<ProcessResult> {
+  const label = job.label ?? command;
+  try {
+    return await ffmpegPool.run({ label, priority: job.priority, signal: job.signal }, (slot) =>
+      recordSpan(
+        {
+          kind: 'ffmpeg',
+          name: label,
+          args: { command, queueWaitMs: slot.waitMs, queuedAhead: slot.queuedAhead },
+        },
+        async (span) => {
+          const timeoutMs = job.timeoutMs ?? ffmpegJobTimeoutMs();
+          const result = await spawnProcess(command, args, timeoutMs, job.signal, (pid) => {
+            span.args.childPid = pid ?? null;
+          });
+          span.args.exitCode = result.code;
+          if (result.failure) span.args.failure = result.failure;
+          return result;
+        },
+      ),
+    );
+  } catch (error) {
+    if (isCancelled(error)) {
+      return { code: null, stdout: '', stderr: error.message, failure: 'cancelled' };
+    }
+    if (!(error instanceof PoolSaturatedError)) throw error;
+    return { code: null, stdout: '', stderr: error.message, failure: 'queue-full' };
+  }
+}
+
+function spawnProcess(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  onSpawn: (pid: number | undefined) => void,
+): Promise<ProcessResult> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    onSpawn(proc.pid);
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+    const settle = (result: ProcessResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      proc.kill('SIGKILL');
+      settle({ code: null, stdout, stderr, failure: 'timeout' });
+    }, timeoutMs);
+    const onAbort = () => {
+      proc.kill('SIGKILL');
+      settle({ code: null, stdout, stderr, failure: 'cancelled' });
+    };
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+
+    proc.stdout.on('data', (chunk) => (stdout += chunk));
+    proc.stderr.on('data', (chunk) => (stderr += chunk));
+    proc.on('error', (err: NodeJS.ErrnoException) => {
+      settle({
+        code: null,
+        stdout,
+        stderr: stderr || err.message,
+        ...(err.code === 'ENOENT' && { failure: 'missing' as const }),
+      });
+    });
+    proc.on('close', (code) => settle({ code, stdout, stderr }));
+  });
+}
+
+function toRenderResult(
+  result: ProcessResult,
+  outputPath: string,
+  startedAt: number,
+): RenderResult {
+  if (result.failure === 'missing') {
+    return { ok: false, reason: 'ffmpeg-missing', exitCode: null, stderr: result.stderr };
+  }
+  if (result.failure === 'timeout') {
+    return { ok: false, reason: 'ffmpeg-timeout', exitCode: null, stderr: result.stderr };
+  }
+  if (result.failure === 'queue-full') {
+    return { ok: false, reason: 'ffmpeg-queue-full', exitCode: null, stderr: result.stderr };
+  }
+  if (result.failure === 'cancelled') {
+    return { ok: false, reason: 'ffmpeg-cancelled', exitCode: null, stderr: result.stderr };
+  }
+  if (result.code !== 0) {
+    return { ok: false, reason: 'ffmpeg-failed', exitCode: result.code, stderr: result.stderr };
+  }
+  return { ok: true, outputPath, elapsedMs: Date.now() - startedAt };
+}
+
+function renderArgs(
+  preset: RenderPreset,
+  source: RenderSource,
+  outputPath: string,
+): string[] {
+  const { width, height, fps, durationSec } = preset;
+  const input =
+    source.kind === 'lavfi'
+      ? ['-f', 'lavfi', '-i', `color=c=${source.color}:s=${width}x${height}:r=${fps}:d=${durationSec}`]
+      : ['-i', source.path];
+  return [
+    '-hide_banner', '-loglevel', 'error', '-y',
+    ...input,
+    '-t', String(durationSec),
+    '-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+    '-r', String(fps),
+    '-an',
+    ...preset.codecArgs,
+    outputPath,
+  ];
+}
+
+export async function renderPreview(opts: {
+  preset: RenderPreset;
+  source: RenderSource;
+  outputPath: string;
+  timeoutMs?: number;
+  label?: string;
+  signal?: AbortSignal;
+}): Promise<RenderResult> {
+  const startedAt = Date.now();
+  const result = await runProcess(
+    'ffmpeg',
+    renderArgs(opts.preset, opts.source, opts.outputPath),
+    {
+      timeoutMs: opts.timeoutMs,
+      label: opts.label,
+      priority: JOB_PRIORITY.render,
+      signal: opts.signal,
+    },
+  );
+  return toRenderResult(result, opts.outputPath, startedAt);
+}
+
+// Join already-rendered previews (same preset, so streams are copied rather
+// than re-encoded) with the concat demuxer.
+export async function concatPreviews(opts: {
+  inputPaths: string[];
+  listPath: string;
+  outputPath: string;
+  timeoutMs?: number;
+  label?: string;
+}): Promise<RenderResult> {
+  const startedAt = Date.now();
+  const list = opts.inputPaths
+    .map((p) => `file '${p.replace(/'/g, "'\\''")}'`)
+    .join('\n');
+  await fs.writeFile(opts.listPath, `${list}\n`);
+
+  const result = await runProcess(
+    'ffmpeg',
+    [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-f', 'concat', '-safe', '0', '-i', opts.listPath,
+      '-c', 'copy',
+      opts.outputPath,
+    ],
+    { timeoutMs: opts.timeoutMs, label: opts.label, priority: JOB_PRIORITY.concat },
+  );
+  return toRenderResult(result, opts.outputPath, startedAt);
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+// Returns null when ffprobe is unavailable or cannot read the file; the
+// preview is still uploaded, just without probed metadata.
+export async function probeMedia(
+  filePath: string,
+  opts: { signal?: AbortSignal } = {},
+): Promise<MediaProbe | null> {
+  const result = await runProcess(
+    'ffprobe',
+    [
+      '-v', 'error',
+      '-show_entries', 'format=duration,size:stream=codec_type,codec_name,width,height',
+      '-of', 'json',
+      filePath,
+    ],
+    {
+      label: `ffprobe ${filePath.split('/').pop()}`,
+      priority: JOB_PRIORITY.probe,
+      signal: opts.signal,
+    },
+  );
+  if (result.failure || result.code !== 0) {
+    logger.warn('ffprobe failed', {
+      filePath,
+      failure: result.failure,
+      exitCode: result.code,
+      stderr: result.stderr.slice(0, 500),
+    });
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(result.stdout) as {
+      format?: { duration?: string; size?: string };
+      streams?: Array<{ codec_type?: string; codec_name?: string; width?: number; height?: number }>;
+    };
+    const video = parsed.streams?.find((s) => s.codec_type === 'video');
+    return {
+      durationSec: toNumber(parsed.format?.duration),
+      width: toNumber(video?.width),
+      height: toNumber(video?.height),
+      sizeBytes: toNumber(parsed.format?.size),
+      codec: video?.codec_name ?? null,
+    };
+  } catch (error) {
+    logger.warn('ffprobe output unreadable', {
+      filePath,
+      message: (error as Error).message,
+    });
+    return null;
+  }
+}
@@ -1,11 +1,56 @@
 import admin from "firebase-admin";
-import { logger } from "firebase-functions";
+import { correlationMetadata, logger, withCorrelation } from "./correlation";
 import { onDocumentUpdated } from "firebase-functions/v2/firestore";
-import { spawn } from "child_process";
-import crypto from "crypto";
 import * as path from "path";
 import * as os from "os";
 import { promises as fs } from "fs";
+import { withRoutingCheck } from "./routing-guard";
+import { attemptSeed, seededRandom } from "./seeded-random";
+import type { SeededRandom } from "./seeded-random";
+import { getBucket, getDb } from "./services";
+import { invalidateUploadTokens, issueUploadToken, uploadTokenId } from "./upload-tokens";
+import { failClipJob, queueClipJobs, transitionClipJob } from "./clip-jobs";
+import type { ClipJobStatus } from "./clip-jobs";
+import {
+  ClipDefinitionError,
+  loadClipDefinitions,
+  MAX_PREVIEW_VARIANTS,
+} from "./clip-definitions";
+import type { ClipDefinition } from "./clip-definitions";
+import { RenderPresetError, probeMedia, renderPreview, resolveRenderPreset } from "./ffmpeg-render";
+import { ffmpegPool } from "./process-pool";
+import { RetryExhaustedError, withRetry } from "./retry";
+import { recordFailedWork, registerFailedWorkReplay } from "./failed-work";
+import type { RenderResult } from "./ffmpeg-render";
+import { stitchClipPreviews } from "./stitching";
+import { formatClipPath } from "./storage-paths";
+import { beginUploadProcessing, cancelUploadProcessing, recordFailedUpload } from "./upload-completion";
+import {
+  abortable,
+  beginRun,
+  cancelRun,
+  cancellationError,
+  endRun,
+  isCancelled,
+  runSignal,
+  throwIfCancelled,
+} from "./cancellation";
+import type { CancelReason } from "./cancellation";
+import { internalClient } from "./express-app";
+import { defineRoute, InternalClient } from "./internal-client";
+import type { InternalRoute } from "./internal-client";
+import { parseBody, s } from "./request-schema";
+import type { Infer } from "./request-schema";
+import express from "express";
+import { reproFactors } from "./repro-factors";
+import {
+  DEFAULT_RENDERS_PER_CLIP,
+  readWorkloadSettings,
+  simulateDelay,
+  WorkloadScenarioError,
+  workloadSettingsSchema,
+} from "./workload-scenario";
+import type { WorkloadSettings } from "./workload-scenario";
 
 // Initialize Admin SDK only once.
 if (!admin.apps.length) {
@@ -17,203 +62,331 @@ const triggerOptions = {
   memory: "512MiB" as const,
   maxInstances: 10,
   invoker: "private" as const,
-  concurrency: 1000, // Key: high concurrency like parent project
+  // Key: high concurrency like parent project (repro factor highConcurrency)
+  concurrency: reproFactors().highConcurrency ? 1000 : 1,
 };
 
-interface WorkloadData {
-  uploadId: string;
-  clipId?: string;
-  clipIndex?: number;
-  fileIndex?: number;
-  baseContent?: string;
-  musicVideoId?: string;
+// Payload passed between the clip preview routes (and to uploadFile)
+const workloadDataShape = {
+  uploadId: s.string(),
+  clipId: s.optional(s.string()),
+  clipIndex: s.optional(s.integer({ min: 0 })),
+  fileIndex: s.optional(s.integer({ min: 0 })),
+  baseContent: s.optional(s.string({ maxLength: 4096 })),
+  musicVideoId: s.optional(s.string()),
+  previewVariants: s.optional(s.integer({ min: 1, max: MAX_PREVIEW_VARIANTS })),
+  sourceObject: s.optional(s.nullable(s.string())),
+  previewPreset: s.optional(s.string()),
+  iteration: s.optional(s.integer()),
+  runId: s.optional(s.string()),
+  seed: s.optional(s.string()),
+  // Processing attempt of the upload, stamped on every token and object
+  attempt: s.optional(s.integer({ min: 1 })),
+  workload: s.optional(workloadSettingsSchema),
+};
+const workloadDataSchema = s.object(workloadDataShape);
+type WorkloadData = Infer<typeof workloadDataSchema>;
+
+// Both clip preview routes work on one clip
+const clipWorkloadSchema = s.object({ ...workloadDataShape, clipId: s.string() });
+
+// One render + upload task; recorded as the render-upload failed-work payload
+const renderUploadSchema = s.object({
+  uploadId: s.string(),
+  clipId: s.string(),
+  label: s.string(),
+  fileIndex: s.integer({ min: 0 }),
+  group: s.string(),
+  sourceObject: s.optional(s.nullable(s.string())),
+  previewPreset: s.optional(s.string()),
+  iteration: s.optional(s.integer()),
+  runId: s.optional(s.string()),
+  seed: s.optional(s.string()),
+  attempt: s.optional(s.integer({ min: 1 })),
+  workload: s.optional(workloadSettingsSchema),
+});
+type RenderUploadParams = Infer<typeof renderUploadSchema>;
+
+// Previews uploaded per clip when neither the clip nor the upload doc says otherwise
+const DEFAULT_PREVIEW_VARIANTS = 2;
+
+// Warn once per worker; every fallback upload is still tagged in its metadata
+let warnedFfmpegMissing = false;
+
+// Local copy of a clip's source object for ffmpeg to read
+async function downloadSourceObject(
+  sourceObject: string,
+  localPath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const [contents] = await abortable(getBucket().file(sourceObject).download(), signal);
+  await fs.writeFile(localPath, contents);
 }
 
-// Simple FFmpeg + file upload (like your original)
-function runFfmpegAndUpload(params: {
-  uploadId: string;
-  label: string;
-  fileIndex: number;
-  group: string;
-}): Promise<void> {
-  const { uploadId, label, fileIndex, group } = params;
-  return new Promise((resolve) => {
-    const colors = [
-      "black", "white", "red", "green", "blue", "purple", "orange", "yellow"
-    ];
-    const color = colors[Math.floor(Math.random() * colors.length)];
-    const width = 160 + Math.floor(Math.random() * 160);
-    const height = 120 + Math.floor(Math.random() * 120);
-    crypto.randomBytes(3); // generate entropy
-    
-    const ffArgs = [
-      "-hide_banner", "-loglevel", "error", "-f", "lavfi", "-i",
-      `color=c=${color}:s=${width}x${height}:d=0.3`, "-f", "null", "-"
-    ];
-    
-    const startedAt = Date.now();
-    let ffmpegRan = false;
-
-    const finalizeUpload = (ffmpegOk: boolean, exitCode?: number) => {
-      const rand = crypto.randomBytes(4).toString("hex");
-      const filePath = `uploads/${uploadId}-${fileIndex}-${rand}.txt`;
-      const bucket = admin.storage().bucket();
-      const uploadToken = `token-${uploadId}-${fileIndex}-${rand}`;
-      const durationMs = Date.now() - startedAt;
-      const content = [
-        "FFMPEG_SIMULATION RESULT",
-        `uploadId=${uploadId}`,
-        `label=${label}`,
-        `group=${group}`,
-        `color=${color}`,
-        `dimension=${width}x${height}`,
-        `ffmpegOk=${ffmpegOk}`,
-        `exitCode=${exitCode}`,
-        `durationMs=${durationMs}`,
-        `ts=${new Date().toISOString()}`,
-      ].join("\n");
-
-      // Create token doc
-      const tokenRef = admin
-        .firestore()
-        .collection("storageUploadTokens")
-        .doc(uploadToken);
-      tokenRef
-        .set({
-          fileStoragePath: filePath,
-          dateExpires: admin.firestore.Timestamp.fromDate(
-            new Date(Date.now() + 3600000)
-          ),
-          isConsumed: false,
-          dateCreated: admin.firestore.FieldValue.serverTimestamp(),
-        })
-        .catch((e) =>
-          logger.error("Failed to create token doc", {
-            uploadToken,
-            e: e.message,
-          })
-        );
+// Worth another attempt; a missing or disabled ffmpeg is not
+const RETRYABLE_RENDER_FAILURES = ["ffmpeg-failed", "ffmpeg-timeout", "ffmpeg-queue-full"];
 
-      bucket
-        .file(filePath)
-        .save(content, {
-          contentType: "text/plain",
-          metadata: {
-            metadata: {
-              uploadSource: "firestore-trigger-ffmpeg",
-              uploadId,
-              fileIndex: String(fileIndex),
-              uploadToken,
-              group,
-            },
-          },
-        })
-        .then(() => {
-          console.log(`🚀 UPLOADED FILE TO STORAGE: ${filePath}`);
-          logger.info(`Uploaded ${filePath} after ffmpeg simulation`);
-          resolve();
-        })
-        .catch((e) => {
-          logger.error(`Failed to upload ${filePath}`, { e: e.message });
-          resolve();
-        });
-    };
+// Retries failed renders; once attempts run out the last failure is returned
+// so the caller can fall back to the text artifact.
+async function renderWithRetry(
+  opts: Parameters<typeof renderPreview>[0],
+  context: Record<string, unknown>,
+  rng: SeededRandom
+): Promise<RenderResult> {
+  const { signal } = opts;
+  let last: RenderResult | undefined;
+  try {
+    return await withRetry(
+      "render preview",
+      async () => {
+        last = await renderPreview(opts);
+        if (!last.ok && RETRYABLE_RENDER_FAILURES.includes(last.reason)) {
+          throw new Error(`render ${last.reason}`);
+        }
+        return last;
+      },
+      { context, signal, rng }
+    );
+  } catch (error) {
+    if (!(error instanceof RetryExhaustedError) || !last) throw error;
+    return last;
+  }
+}
 
-    // Try to run actual ffmpeg
-    const ffmpegProc = spawn("ffmpeg", ffArgs, {
-      stdio: ["ignore", "pipe", "pipe"],
-    });
+// FFmpeg render + file upload (like your original)
+// Resolves with the uploaded path, or null when the work failed after every
+// retry (it is then recorded in failedWork for replay). Rejects with
+// CancelledError when the upload's run is cancelled.
+async function runFfmpegAndUpload(params: RenderUploadParams): Promise<string | null> {
+  const { uploadId, clipId, label, fileIndex, group, sourceObject, iteration, runId, seed, attempt } =
+    params;
+  // One stream per (upload, clip task) so a seed replays the same choices
+  const rng = seededRandom(seed, uploadId, label, fileIndex);
+  const colors = [
+    "black", "white", "red", "green", "blue", "purple", "orange", "yellow"
+  ];
+  const color = rng.pick(colors);
+  const rand = rng.hex(4);
+  const uploadToken = uploadTokenId(uploadId, fileIndex, rng);
+  const basePreset = resolveRenderPreset(params.previewPreset);
+  // The upload's workload scenario may lengthen or shorten every render
+  const durationSec = params.workload?.ffmpegDurationSec;
+  const preset = durationSec ? { ...basePreset, durationSec } : basePreset;
 
-    const timeout = setTimeout(() => {
-      if (!ffmpegRan) {
-        ffmpegProc.kill("SIGTERM");
-        finalizeUpload(false, -1);
-      }
-    }, 500);
+  const tempBase = path.join(os.tmpdir(), `preview-${uploadId}-${fileIndex}-${rand}`);
+  const outputPath = `${tempBase}.${preset.extension}`;
+  const sourcePath = sourceObject ? `${tempBase}-source` : null;
+  const retryContext = { uploadId, label, fileIndex };
+  const variant = `render-${fileIndex}-${rand}`;
 
-    ffmpegProc.on("exit", (code) => {
-      if (!ffmpegRan) {
-        ffmpegRan = true;
-        clearTimeout(timeout);
-        finalizeUpload(true, code ?? -1);
-      }
-    });
+  // Exhausted work is kept for replay. Its object will never finalize, so it
+  // is also counted as a failed file and the run can still close out.
+  const giveUp = async (error: unknown, objectName: string): Promise<null> => {
+    await recordFailedWork({ kind: "render-upload", payload: { ...params }, error });
+    await recordFailedUpload(uploadId, objectName, attempt).catch((err) =>
+      logger.error("Failed to record failed upload", { objectName, e: err.message })
+    );
+    return null;
+  };
+  const signal = runSignal(uploadId);
 
-    ffmpegProc.on("error", () => {
-      if (!ffmpegRan) {
-        ffmpegRan = true;
-        clearTimeout(timeout);
-        finalizeUpload(false, -2);
+  await simulateDelay(params.workload?.delays.render, rng.fork("render-delay"), signal);
+  let render: RenderResult;
+  if (!reproFactors().ffmpegLoad) {
+    // Repro factor ffmpegLoad off: no child process, straight to the fallback
+    render = { ok: false, reason: "ffmpeg-disabled", exitCode: null, stderr: "" };
+  } else {
+    try {
+      if (sourceObject && sourcePath) {
+        await withRetry(
+          "download source object",
+          () => downloadSourceObject(sourceObject, sourcePath, signal),
+          { context: retryContext, signal, rng }
+        );
       }
-    });
+      render = await renderWithRetry(
+        {
+          preset,
+          source: sourcePath
+            ? { kind: "file", path: sourcePath }
+            : { kind: "lavfi", color },
+          outputPath,
+          label,
+          signal,
+        },
+        retryContext,
+        rng
+      );
+    } catch (e) {
+      if (isCancelled(e)) throw e;
+      return giveUp(e, formatClipPath({ uploadId, clipId, variant, ext: preset.extension }));
+    } finally {
+      if (sourcePath) await fs.unlink(sourcePath).catch(() => undefined);
+    }
+  }
+
+  // A killed render comes back as ffmpeg-cancelled; nothing to upload
+  if (signal?.aborted) {
+    if (render.ok) await fs.unlink(render.outputPath).catch(() => undefined);
+    throwIfCancelled(signal);
+  }
+
+  if (!render.ok) {
+    if (render.reason !== "ffmpeg-missing" && render.reason !== "ffmpeg-disabled") {
+      logger.warn("ffmpeg render failed, uploading text artifact instead", {
+        uploadId,
+        label,
+        reason: render.reason,
+        exitCode: render.exitCode,
+        stderr: render.stderr.slice(0, 500),
+      });
+    } else if (!warnedFfmpegMissing) {
+      warnedFfmpegMissing = true;
+      logger.warn("ffmpeg not found on PATH, previews fall back to text artifacts");
+    }
+  }
+
+  const probe = render.ok ? await probeMedia(render.outputPath, { signal }) : null;
+  const filePath = formatClipPath({
+    uploadId,
+    clipId,
+    variant,
+    ext: render.ok ? preset.extension : "txt",
   });
+  const bucket = getBucket();
+
+  const customMetadata: Record<string, string> = {
+    uploadSource: "firestore-trigger-ffmpeg",
+    uploadId,
+    fileIndex: String(fileIndex),
+    uploadToken,
+    group,
+    preset: preset.name,
+    ...(sourceObject && { sourceObject }),
+    ...(iteration !== undefined && { iteration: String(iteration) }),
+    ...(attempt !== undefined && { processingAttempt: String(attempt) }),
+    ...(runId && { runId }),
+    ...correlationMetadata(),
+  };
+
+  try {
+    await simulateDelay(params.workload?.delays.upload, rng.fork("upload-delay"), signal);
+    // Token doc first, so the finalize that the upload causes can consume it
+    await withRetry(
+      "issue upload token",
+      () =>
+        issueUploadToken({
+          token: uploadToken,
+          uploadId,
+          fileStoragePath: filePath,
+          issuedBy: "firestore-trigger-ffmpeg",
+          attempt,
+          runId,
+        }),
+      { context: retryContext, signal, rng }
+    );
+
+    // Aborting stops waiting on the upload; an object that still lands is
+    // rejected at finalize because its token was invalidated
+    await withRetry(
+      "upload preview",
+      async () => {
+        if (render.ok) {
+          await abortable(bucket.upload(render.outputPath, {
+            destination: filePath,
+            metadata: {
+              contentType: preset.contentType,
+              metadata: {
+                ...customMetadata,
+                renderMs: String(render.elapsedMs),
+                ...(probe?.durationSec != null && { durationSec: String(probe.durationSec) }),
+                ...(probe?.width != null && { width: String(probe.width) }),
+                ...(probe?.height != null && { height: String(probe.height) }),
+                ...(probe?.sizeBytes != null && { sizeBytes: String(probe.sizeBytes) }),
+                ...(probe?.codec && { codec: probe.codec }),
+              },
+            },
+          }), signal);
+        } else {
+          const content = [
+            "FFMPEG_RENDER_FALLBACK",
+            `uploadId=${uploadId}`,
+            `label=${label}`,
+            `group=${group}`,
+            `color=${color}`,
+            `preset=${preset.name}`,
+            `dimension=${preset.width}x${preset.height}`,
+            `reason=${render.reason}`,
+            `exitCode=${render.exitCode}`,
+            `ts=${new Date().toISOString()}`,
+          ].join("\n");
+          await abortable(bucket.file(filePath).save(content, {
+            contentType: "text/plain",
+            metadata: {
+              metadata: { ...customMetadata, renderFallback: render.reason },
+            },
+          }), signal);
+        }
+      },
+      { context: retryContext, signal, rng }
+    );
+    console.log(`🚀 UPLOADED FILE TO STORAGE: ${filePath}`);
+    logger.info(`Uploaded ${filePath} after ffmpeg render`, {
+      contentType: render.ok ? preset.contentType : "text/plain",
+      probe,
+    });
+    return filePath;
+  } catch (e) {
+    if (isCancelled(e)) throw e;
+    return giveUp(e, filePath);
+  } finally {
+    if (render.ok) await fs.unlink(render.outputPath).catch(() => undefined);
+  }
 }
 
-// CRITICAL: Create axiosist routing within same function instance (like real broken flow)
+// CRITICAL: Internal routing within same function instance (like real broken flow)
+// Transport (in-memory axiosist / loopback HTTP / direct) comes from
+// INTERNAL_CALL_MODE; see internal-client.ts.
 async function makeApiRequestWithFFmpeg(opts: {
   url: string;
   data: WorkloadData;
+  signal?: AbortSignal;
 }): Promise<any> {
-  const { logger } = await import("firebase-functions");
-  
-  console.log(`🔥 AXIOSIST: Creating Express app within same trigger function for ${opts.url}`);
-  
-  try {
-    // CRITICAL: Create axiosist mock adapter to route through Express app (like main project)
-    const { default: express } = await import('express');
-    const { createAdapter } = await import('axiosist');
-    const axios = await import('axios');
-    
-    // Create Express app within the SAME FUNCTION INSTANCE (this is the key bug scenario)
-    const app = express();
-    app.use(express.json());
-    
-    // Add endpoints that mirror your real app structure
-    app.post('/generateAllClipPreviewsAndStitch', async (req, res) => {
-      console.log('🚀 AXIOSIST ENDPOINT: /generateAllClipPreviewsAndStitch called within same function');
-      
-      // This triggers MORE ffmpeg work within the same function instance!
-      const result = await triggerGenerateClipPreview(req.body);
-      res.json(result);
-    });
-    
-    app.post('/triggerClipPreviewVideo', async (req, res) => {
-      console.log('🚀 AXIOSIST ENDPOINT: /triggerClipPreviewVideo called within same function');
-      const result = await triggerClipPreviewVideo(req.body);
-      res.json(result);
-    });
-    
-    // Create axios instance with axiosist adapter (routes through Express in-memory)
-    const axiosInstance = axios.default.create({
-      adapter: createAdapter(app), 
-      timeout: 30000,
-    });
-    
-    console.log(`🔥 AXIOSIST CALL: Making ${opts.url} request through in-memory Express app`);
-    const response = await axiosInstance.post(opts.url, opts.data);
-    console.log('🔥 AXIOSIST SUCCESS: Request completed within same function instance');
-    return response.data;
-    
-  } catch (error) {
-    console.log('🔥 AXIOSIST FALLBACK: Mock adapter failed');
-    logger.info('Axiosist failed, using fallback', { 
-      error: error instanceof Error ? error.message : String(error) 
-    });
-    
-    // Fallback to direct calls
-    if (opts.url === "/generateAllClipPreviewsAndStitch") {
-      return await triggerGenerateClipPreview(opts.data);
-    } else if (opts.url === "/triggerClipPreviewVideo") {
-      return await triggerClipPreviewVideo(opts.data);
-    }
+  if (reproFactors().nestedExpressApps) {
+    return makeNestedAppRequest(opts);
   }
+  console.log(`🔥 INTERNAL CALL (${internalClient.mode}): ${opts.url}`);
+  const result = await internalClient.post(opts.url, opts.data, { signal: opts.signal });
+  console.log(`🔥 INTERNAL CALL DONE: ${opts.url}`);
+  return result;
+}
 
-  return { success: true };
+// Original flow (repro factor nestedExpressApps): a NEW Express app with the
+// clip preview endpoints and a NEW axiosist adapter for every call, inside
+// the same trigger function instance.
+async function makeNestedAppRequest(opts: {
+  url: string;
+  data: WorkloadData;
+  signal?: AbortSignal;
+}): Promise<any> {
+  console.log(`🔥 AXIOSIST: Creating Express app within same trigger function for ${opts.url}`);
+  const nestedApp = express();
+  nestedApp.use(express.json());
+  const client = new InternalClient({
+    name: "nested",
+    getApp: () => nestedApp,
+    mode: "in-memory",
+  });
+  client.registerRoutes(clipPreviewRoutes);
+
+  const result = await client.post(opts.url, opts.data, { signal: opts.signal });
+  console.log("🔥 AXIOSIST SUCCESS: Request completed within same function instance");
+  return result;
 }
 
 // Simulate the real flow: triggerClipPreviewVideo calls that lead to more axiosist routing
 async function triggerClipPreviewVideo(data: WorkloadData): Promise<any> {
-  const { uploadId, clipId, clipIndex } = data;
+  const { uploadId, clipId, clipIndex, previewVariants, sourceObject } = data;
   console.log(`🎬 TRIGGER CLIP PREVIEW: Processing clip ${clipId} (index ${clipIndex})`);
   
   // This simulates your triggerClipPreviewVideo function
@@ -224,8 +397,17 @@ async function triggerClipPreviewVideo(data: WorkloadData): Promise<any> {
       uploadId, 
       clipId, 
       clipIndex,
-      musicVideoId: data.musicVideoId 
+      previewVariants,
+      sourceObject,
+      previewPreset: data.previewPreset,
+      musicVideoId: data.musicVideoId,
+      iteration: data.iteration,
+      runId: data.runId,
+      seed: data.seed,
+      attempt: data.attempt,
+      workload: data.workload,
     },
+    signal: runSignal(uploadId),
   });
   
   return result;
@@ -235,53 +417,143 @@ async function triggerClipPreviewVideo(data: WorkloadData): Promise<any> {
 async function triggerGenerateClipPreview(data: WorkloadData) {
   const { uploadId, clipId, musicVideoId } = data;
   console.log(`🔥 GENERATE CLIP PREVIEW: Starting FFmpeg tasks for clip ${clipId}`);
-  
-  // This does a bunch of FFmpeg video tasks (the actual CPU/IO work)
-  await runActualFFmpegWork(data);
-  
-  // Create a few file uploads (not spam, just realistic amount)
-  const uploads = [];
-  for (let i = 0; i < 2; i++) {
-    uploads.push(uploadFile({
+  if (!clipId) throw new Error("clipId is required");
+  const signal = runSignal(uploadId);
+
+  // Job doc at uploads/{uploadId}/jobs/{clipId} tracks this clip's progress
+  await transitionClipJob(uploadId, clipId, "running");
+  let phase: ClipJobStatus = "running";
+  try {
+    throwIfCancelled(signal);
+    // This does a bunch of FFmpeg video tasks (the actual CPU/IO work)
+    const renderedPaths = await runActualFFmpegWork(data);
+
+    throwIfCancelled(signal);
+    await transitionClipJob(uploadId, clipId, "uploading", {
+      outputPaths: renderedPaths,
+      previewPaths: renderedPaths,
+    });
+    phase = "uploading";
+
+    // Create a few file uploads (not spam, just realistic amount)
+    const uploads = [];
+    const variants = data.previewVariants ?? DEFAULT_PREVIEW_VARIANTS;
+    for (let i = 0; i < variants; i++) {
+      uploads.push(uploadFile({
+        uploadId,
+        clipId,
+        fileIndex: (data.clipIndex || 0) * 10 + i,
+        baseContent: `Clip ${clipId} preview video`,
+        musicVideoId,
+        iteration: data.iteration,
+        runId: data.runId,
+        seed: data.seed,
+        attempt: data.attempt,
+        workload: data.workload,
+      }));
+    }
+
+    const uploaded = await Promise.all(uploads);
+    await transitionClipJob(uploadId, clipId, "succeeded", {
+      outputPaths: uploaded.map((u) => u.filePath),
+    });
+    return { success: true, clipsProcessed: 1, filesCreated: uploads.length };
+  } catch (error) {
+    const details = {
+      uploadId,
+      clipId,
+      phase,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    if (isCancelled(error)) logger.info("clip preview job cancelled", details);
+    else logger.error("clip preview job failed", details);
+    await failClipJob(uploadId, clipId, error);
+    throw error;
+  }
+}
+
+// Clip preview, then the stitch stage. Runs the stitch attempt even when this
+// clip failed, since the last clip to settle is the one that stitches.
+async function generateAllClipPreviewsAndStitch(data: WorkloadData) {
+  const { uploadId } = data;
+  const musicVideoId = data.musicVideoId ?? `mv-${uploadId}`;
+  const stitch = () =>
+    stitchClipPreviews({
       uploadId,
-      fileIndex: (data.clipIndex || 0) * 10 + i,
-      baseContent: `Clip ${clipId} preview video`,
       musicVideoId,
-    }));
+      iteration: data.iteration,
+      runId: data.runId,
+      seed: data.seed,
+      attempt: data.attempt,
+    });
+
+  let result;
+  try {
+    result = await triggerGenerateClipPreview(data);
+  } catch (error) {
+    // A cancelled upload has nothing left to stitch
+    if (!isCancelled(error)) await stitch().catch(() => undefined);
+    throw error;
   }
-  
-  await Promise.all(uploads);
-  return { success: true, clipsProcessed: 1, filesCreated: uploads.length };
+  return { ...result, stitch: await stitch() };
 }
 
+// Endpoints that mirror your real app structure, mounted on the shared api app
+const clipPreviewRoutes: Record<string, InternalRoute> = {
+  "/generateAllClipPreviewsAndStitch": defineRoute(
+    clipWorkloadSchema,
+    generateAllClipPreviewsAndStitch
+  ),
+  "/triggerClipPreviewVideo": defineRoute(clipWorkloadSchema, triggerClipPreviewVideo),
+};
+internalClient.registerRoutes(clipPreviewRoutes);
+
 // Actual FFmpeg work that causes the timing issues
-async function runActualFFmpegWork(data: WorkloadData) {
+async function runActualFFmpegWork(data: WorkloadData): Promise<string[]> {
   console.log(`🎬 FFMPEG WORK: Running actual video processing for ${data.clipId}`);
   
   // Simulate real FFmpeg work - not too much spam, but enough to create timing windows
   const tasks = [];
-  for (let i = 0; i < 3; i++) {
+  const renders = data.workload?.rendersPerClip ?? DEFAULT_RENDERS_PER_CLIP;
+  for (let i = 0; i < renders; i++) {
     tasks.push(runFfmpegAndUpload({
       uploadId: data.uploadId,
+      clipId: data.clipId!,
       label: `clip-${data.clipId}-task-${i}`,
       fileIndex: i,
       group: 'preview-generation',
+      sourceObject: data.sourceObject,
+      previewPreset: data.previewPreset,
+      iteration: data.iteration,
+      runId: data.runId,
+      seed: data.seed,
+      attempt: data.attempt,
+      workload: data.workload,
     }));
   }
   
-  await Promise.all(tasks);
+  // Renders queue in the shared ffmpeg pool, so this is bounded per worker
+  const paths = await Promise.all(tasks);
+  logger.debug?.("ffmpeg work done", { clipId: data.clipId, pool: ffmpegPool.metrics() });
+  return paths.filter((p): p is string => p !== null);
 }
 
 export async function uploadFile(data: WorkloadData) {
-  const { uploadId, fileIndex, baseContent } = data;
+  const { uploadId, clipId, fileIndex, baseContent, iteration, runId, seed, attempt } = data;
 
-  if (!uploadId || fileIndex === undefined || !baseContent) {
+  if (!uploadId || !clipId || fileIndex === undefined || !baseContent) {
     throw new Error("Missing required fields");
   }
 
-  const bucket = admin.storage().bucket();
-  const rand = Math.random().toString(36).slice(2, 10);
-  const filePath = `uploads/${uploadId}-${fileIndex + 1}-${rand}.txt`;
+  const bucket = getBucket();
+  const rng = seededRandom(seed, uploadId, "uploadFile", fileIndex);
+  const rand = rng.base36(8);
+  const filePath = formatClipPath({
+    uploadId,
+    clipId,
+    variant: `preview-${fileIndex + 1}-${rand}`,
+    ext: "txt",
+  });
   const content = `${baseContent} file#${
     fileIndex + 1
   } rand=${rand} @ ${new Date().toISOString()}`;
@@ -294,96 +566,273 @@ export async function uploadFile(data: WorkloadData) {
 
   logger.debug?.("uploading file", { uploadId, fileIndex, filePath });
 
-  // Create upload token doc
-  const uploadToken = `token-${uploadId}-${fileIndex}-${Math.random()
-    .toString(36)
-    .slice(2)}`;
-  const tokenRef = admin
-    .firestore()
-    .collection("storageUploadTokens")
-    .doc(uploadToken);
-  await tokenRef.set({
-    fileStoragePath: filePath,
-    dateExpires: admin.firestore.Timestamp.fromDate(
-      new Date(Date.now() + 3600000)
-    ),
-    isConsumed: false,
-    dateCreated: admin.firestore.FieldValue.serverTimestamp(),
-  });
+  const retryContext = { uploadId, clipId, fileIndex };
+  const signal = runSignal(uploadId);
+  try {
+    await simulateDelay(data.workload?.delays.upload, rng.fork("upload-delay"), signal);
+    // Create upload token doc
+    const token = uploadTokenId(uploadId, fileIndex, rng);
+    const uploadToken = await withRetry(
+      "issue upload token",
+      () =>
+        issueUploadToken({
+          token,
+          uploadId,
+          fileStoragePath: filePath,
+          issuedBy: "uploadFile",
+          attempt,
+          runId,
+        }),
+      { context: retryContext, signal, rng }
+    );
 
-  await bucket.upload(tempFilePath, {
-    destination: filePath,
-    metadata: {
-      contentType: "text/plain",
-      metadata: {
-        uploadSource: "server",
-        uploadId,
-        fileIndex: (fileIndex + 1).toString(),
-        uploadToken,
-        isPreviewVideo: "yes",
-        originalClipId: `clip-${fileIndex}`,
-      },
-    },
-  });
+    await withRetry(
+      "upload preview",
+      () =>
+        abortable(bucket.upload(tempFilePath, {
+          destination: filePath,
+          metadata: {
+            contentType: "text/plain",
+            metadata: {
+              uploadSource: "server",
+              uploadId,
+              fileIndex: (fileIndex + 1).toString(),
+              uploadToken,
+              isPreviewVideo: "yes",
+              originalClipId: clipId,
+              ...(iteration !== undefined && { iteration: String(iteration) }),
+              ...(attempt !== undefined && { processingAttempt: String(attempt) }),
+              ...(runId && { runId }),
+              ...correlationMetadata(),
+            },
+          },
+        }), signal),
+      { context: retryContext, signal, rng }
+    );
+  } catch (e) {
+    if (!isCancelled(e)) {
+      await recordFailedWork({ kind: "preview-upload", payload: { ...data }, error: e });
+      await recordFailedUpload(uploadId, filePath, attempt).catch((err) =>
+        logger.error("Failed to record failed upload", { filePath, e: err.message })
+      );
+    }
+    throw e;
+  } finally {
+    await fs.unlink(tempFilePath).catch(() => undefined);
+  }
 
-  await fs.unlink(tempFilePath);
   return { success: true, filePath };
 }
 
+// scripts/replayFailedWork.ts re-runs exhausted work with its recorded payload
+registerFailedWorkReplay("render-upload", async (payload) => {
+  const params = parseBody(renderUploadSchema, payload, "render-upload");
+  const filePath = await runFfmpegAndUpload(params);
+  if (!filePath) throw new Error(`render-upload for ${params.uploadId} failed again`);
+  return filePath;
+});
+registerFailedWorkReplay("preview-upload", (payload) =>
+  uploadFile(parseBody(workloadDataSchema, payload, "preview-upload"))
+);
+
+// Stop a processing run: abort its work in this worker (ffmpeg children,
+// uploads, internal calls), close the upload doc out as cancelled and
+// invalidate its unused tokens so stragglers are rejected at finalize.
+async function cancelUpload(uploadId: string, reason: CancelReason): Promise<void> {
+  const abortedHere = cancelRun(uploadId, reason);
+  const cancelled = await cancelUploadProcessing(uploadId, reason);
+  if (!abortedHere && !cancelled) {
+    logger.debug?.("onUploadUpdate cancel skipped (nothing processing)", { uploadId, reason });
+    return;
+  }
+  const tokens = await invalidateUploadTokens(uploadId, `cancelled: ${reason}`);
+  console.log(`🛑 CANCELLED: ${uploadId} (${reason})`);
+  logger.info("upload cancelled", {
+    uploadId,
+    reason,
+    abortedHere,
+    tokensInvalidated: tokens.length,
+  });
+}
+
 // Main trigger (like previewVideoMusicVideoGenerationDocTrigger)
-export const onUploadUpdate = onDocumentUpdated(
-  {
-    document: "uploads/{uploadId}",
-    ...triggerOptions,
-  },
-  async (event) => {
-    console.log("🔥🔥🔥 MAIN TRIGGER FIRED: previewVideoMusicVideoGenerationDocTrigger equivalent!");
-    logger.info("onUploadUpdate start", { uploadId: event.params.uploadId });
-
-    const { uploadId } = event.params;
-    const beforeData = event.data?.before?.data() ?? {};
-    const afterData = event.data?.after?.data() ?? {};
-
-    // Only act on transition generate: false/undefined -> true
-    const generateBefore = beforeData.generate === true;
-    const generateAfter = afterData.generate === true;
-    if (!generateAfter || generateBefore) {
-      logger.debug?.("onUploadUpdate skip (no flag transition)", { uploadId });
-      return;
-    }
+export const onUploadUpdate = withRoutingCheck(
+  "onUploadUpdate",
+  "firestore",
+  onDocumentUpdated(
+    {
+      document: "uploads/{uploadId}",
+      ...triggerOptions,
+    },
+    // Each invocation starts a correlation chain carried by every call,
+    // upload and finalize it causes
+    (event) => withCorrelation(null, async () => {
+      console.log("🔥🔥🔥 MAIN TRIGGER FIRED: previewVideoMusicVideoGenerationDocTrigger equivalent!");
+      logger.info("onUploadUpdate start", { uploadId: event.params.uploadId });
 
-    console.log("🔥 MAIN TRIGGER: Starting triggerClipPreviewVideo calls (like real broken flow)");
+      const { uploadId } = event.params;
+      const beforeData = event.data?.before?.data() ?? {};
+      const afterData = event.data?.after?.data() ?? {};
+      const iteration =
+        typeof afterData.iteration === "number" ? afterData.iteration : undefined;
+      // TEST_SEED stamped by createDoc; the functions worker never sees the shell env
+      const seed = afterData.seed != null ? String(afterData.seed) : undefined;
+      // Run ID stamped by createDoc; carried onto every token, object and anomaly
+      const runId = typeof afterData.runId === "string" ? afterData.runId : undefined;
+      const previewPreset =
+        typeof afterData.previewPreset === "string" ? afterData.previewPreset : undefined;
 
-    // This kicks off triggerClipPreviewVideo calls (like your real app)
-    const clipPromises = [];
+      const generateBefore = beforeData.generate === true;
+      const generateAfter = afterData.generate === true;
+
+      // generate true -> false, or cancelRequested newly set, cancels the run
+      const cancelReason: CancelReason | null =
+        generateBefore && !generateAfter
+          ? "generate-off"
+          : afterData.cancelRequested === true && beforeData.cancelRequested !== true
+            ? "cancel-requested"
+            : null;
+      if (cancelReason) {
+        await cancelUpload(uploadId, cancelReason);
+        return;
+      }
+
+      // Only act on transition generate: false/undefined -> true
+      if (!generateAfter || generateBefore) {
+        logger.debug?.("onUploadUpdate skip (no flag transition)", { uploadId });
+        return;
+      }
+
+      // Fan-out and simulated delays stamped by createDoc from its scenario
+      let workload: WorkloadSettings;
+      try {
+        workload = readWorkloadSettings(uploadId, afterData);
+      } catch (error) {
+        if (!(error instanceof WorkloadScenarioError)) throw error;
+        logger.error("onUploadUpdate invalid workload settings", {
+          uploadId,
+          problems: error.problems,
+        });
+        await getDb()
+          .collection("uploads")
+          .doc(uploadId)
+          .set(
+            { workloadError: { message: error.message, problems: error.problems } },
+            { merge: true }
+          );
+        return;
+      }
+
+      // Clips come from the upload doc (clips subcollection or `clips` array)
+      let clipsToProcess: ClipDefinition[];
+      try {
+        clipsToProcess = await loadClipDefinitions(uploadId, {
+          uploadData: afterData,
+          defaultVariants: DEFAULT_PREVIEW_VARIANTS,
+        });
+      } catch (error) {
+        if (!(error instanceof ClipDefinitionError)) throw error;
+        logger.error("onUploadUpdate invalid clip definitions", {
+          uploadId,
+          problems: error.problems,
+        });
+        await getDb()
+          .collection("uploads")
+          .doc(uploadId)
+          .set(
+            { clipDefinitionError: { message: error.message, problems: error.problems } },
+            { merge: true }
+          );
+        return;
+      }
+
+      // An unknown preset (doc field or PREVIEW_PRESET) would fail every render
+      try {
+        resolveRenderPreset(previewPreset);
+      } catch (error) {
+        if (!(error instanceof RenderPresetError)) throw error;
+        logger.error("onUploadUpdate invalid preview preset", {
+          uploadId,
+          preset: error.preset,
+        });
+        await getDb()
+          .collection("uploads")
+          .doc(uploadId)
+          .set(
+            { previewPresetError: { message: error.message, preset: error.preset } },
+            { merge: true }
+          );
+        return;
+      }
+
+      console.log("🔥 MAIN TRIGGER: Starting triggerClipPreviewVideo calls (like real broken flow)");
+
+      // This kicks off triggerClipPreviewVideo calls (like your real app)
+      const clipPromises = [];
     
-    // Process a few clips (like your real app would)
-    const clipsToProcess = ['clip-1', 'clip-2', 'clip-3'];
-    for (let i = 0; i < clipsToProcess.length; i++) {
-      const clipId = clipsToProcess[i];
-      console.log(`🎬 KICKING OFF: triggerClipPreviewVideo for ${clipId}`);
-      
-      clipPromises.push(
-        makeApiRequestWithFFmpeg({
-          url: "/triggerClipPreviewVideo",
-          data: { 
-            uploadId, 
-            clipId, 
-            clipIndex: i,
-            musicVideoId: `mv-${uploadId}` 
-          },
-        })
+      // Every clip uploads its renders plus its preview variants
+      const expectedFiles = clipsToProcess.reduce(
+        (n, clip) => n + workload.rendersPerClip + clip.previewVariants,
+        0
       );
-    }
+      const attempt = await beginUploadProcessing(uploadId, expectedFiles);
+      // A regenerate draws fresh file names and token IDs
+      const runSeed = attemptSeed(seed, attempt);
+      await queueClipJobs(uploadId, clipsToProcess);
+      // Handlers reached through internal calls find this signal by uploadId
+      const signal = beginRun(uploadId);
+      for (const clip of clipsToProcess) {
+        const { clipId } = clip;
+        console.log(`🎬 KICKING OFF: triggerClipPreviewVideo for ${clipId}`);
+      
+        clipPromises.push(
+          makeApiRequestWithFFmpeg({
+            url: "/triggerClipPreviewVideo",
+            data: { 
+              uploadId, 
+              clipId, 
+              clipIndex: clip.index,
+              previewVariants: clip.previewVariants,
+              sourceObject: clip.sourceObject,
+              previewPreset,
+              musicVideoId: `mv-${uploadId}`,
+              iteration,
+              seed: runSeed,
+              attempt,
+              runId,
+              workload,
+            },
+            signal,
+          }).catch(async (err) => {
+            // Leave the job doc in a terminal state before surfacing the error.
+            // A cancelled call's handler may still be settling its job itself.
+            if (!isCancelled(err)) {
+              await failClipJob(uploadId, clipId, err).catch(() => undefined);
+            }
+            throw err;
+          })
+        );
+      }
 
-    // Don't await - let them run async (like your real trigger)
-    Promise.all(clipPromises).catch((err) => {
-      logger.error("Clip preview promises failed:", err);
-    });
+      // Don't await - let them run async (like your real trigger)
+      Promise.all(clipPromises).catch((err) => {
+        if (isCancelled(err)) return;
+        logger.error("Clip preview promises failed:", err);
+      });
+      // The run is over once every clip has settled
+      Promise.allSettled(clipPromises).then(async () => {
+        endRun(uploadId, signal);
+        // Tokens issued while the abort was landing missed the first sweep
+        if (signal.aborted) {
+          const { reason } = cancellationError(signal);
+          await invalidateUploadTokens(uploadId, `cancelled: ${reason}`).catch(() => undefined);
+        }
+      });
 
-    logger.info("onUploadUpdate kicked off clip processing", {
-      uploadId,
-      clipsStarted: clipsToProcess.length,
-    });
-  }
-);
\ No newline at end of file
+      logger.info("onUploadUpdate kicked off clip processing", {
+        uploadId,
+        clipsStarted: clipsToProcess.length,
+      });
+    })
+  ),
+);
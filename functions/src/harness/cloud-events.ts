@@ -0,0 +1,131 @@
+import admin from 'firebase-admin';
+import crypto from 'crypto';
+import type { CloudEvent } from 'firebase-functions/v2';
+import type { StoredDocument } from './memory-firestore';
+import type { StoredObject } from './memory-storage';
+
+export const FIRESTORE_EVENT_TYPES = {
+  created: 'google.cloud.firestore.document.v1.created',
+  updated: 'google.cloud.firestore.document.v1.updated',
+  deleted: 'google.cloud.firestore.document.v1.deleted',
+  written: 'google.cloud.firestore.document.v1.written',
+} as const;
+
+export const STORAGE_FINALIZED_EVENT_TYPE =
+  'google.cloud.storage.object.v1.finalized';
+
+// Firestore REST/JSON Value encoding, as carried in application/json events.
+export function encodeValue(value: unknown): Record<string, unknown> {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? { integerValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (typeof value === 'string') return { stringValue: value };
+  if (value instanceof admin.firestore.Timestamp) {
+    return { timestampValue: value.toDate().toISOString() };
+  }
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (Buffer.isBuffer(value)) return { bytesValue: value.toString('base64') };
+  if (value instanceof admin.firestore.GeoPoint) {
+    return {
+      geoPointValue: { latitude: value.latitude, longitude: value.longitude },
+    };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(encodeValue) } };
+  }
+  if (typeof value === 'object') {
+    return { mapValue: { fields: encodeFields(value as Record<string, unknown>) } };
+  }
+  throw new Error(`Cannot encode ${typeof value} as a Firestore value`);
+}
+
+export function encodeFields(
+  data: Record<string, unknown>,
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) fields[key] = encodeValue(value);
+  return fields;
+}
+
+function encodeDocument(name: string, doc: StoredDocument | undefined) {
+  if (!doc) return undefined;
+  return {
+    name,
+    fields: encodeFields(doc.data),
+    createTime: doc.createTime.toDate().toISOString(),
+    updateTime: doc.updateTime.toDate().toISOString(),
+  };
+}
+
+function changedFieldPaths(
+  before: StoredDocument | undefined,
+  after: StoredDocument | undefined,
+): string[] {
+  const keys = new Set([
+    ...Object.keys(before?.data ?? {}),
+    ...Object.keys(after?.data ?? {}),
+  ]);
+  return [...keys].filter(
+    (k) =>
+      JSON.stringify(encodeValue(before?.data[k])) !==
+      JSON.stringify(encodeValue(after?.data[k])),
+  );
+}
+
+export interface FirestoreEventInput {
+  type: string;
+  projectId: string;
+  database?: string;
+  path: string;
+  before?: StoredDocument;
+  after?: StoredDocument;
+}
+
+// Build a document.v1.* CloudEvent with the same envelope the emulator sends,
+// using the JSON payload encoding the SDK also accepts.
+export function firestoreEvent(input: FirestoreEventInput): CloudEvent<unknown> {
+  const database = input.database ?? '(default)';
+  const resource = `projects/${input.projectId}/databases/${database}/documents/${input.path}`;
+  return {
+    specversion: '1.0',
+    id: crypto.randomUUID(),
+    type: input.type,
+    source: `//firestore.googleapis.com/projects/${input.projectId}/databases/${database}`,
+    subject: `documents/${input.path}`,
+    time: new Date().toISOString(),
+    datacontenttype: 'application/json; charset=utf-8',
+    project: input.projectId,
+    location: 'nam5',
+    database,
+    namespace: '(default)',
+    document: input.path,
+    data: {
+      value: encodeDocument(resource, input.after),
+      oldValue: encodeDocument(resource, input.before),
+      updateMask:
+        input.before && input.after
+          ? { fieldPaths: changedFieldPaths(input.before, input.after) }
+          : undefined,
+    },
+  } as CloudEvent<unknown>;
+}
+
+// Build an object.v1.finalized CloudEvent for a stored object.
+export function storageFinalizedEvent(object: StoredObject): CloudEvent<unknown> {
+  const { contents: _contents, ...data } = object;
+  return {
+    specversion: '1.0',
+    id: crypto.randomUUID(),
+    type: STORAGE_FINALIZED_EVENT_TYPE,
+    source: `//storage.googleapis.com/projects/_/buckets/${object.bucket}`,
+    subject: `objects/${object.name}`,
+    time: object.updated,
+    datacontenttype: 'application/json',
+    bucket: object.bucket,
+    data,
+  } as CloudEvent<unknown>;
+}
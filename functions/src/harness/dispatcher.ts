@@ -0,0 +1,269 @@
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { createAdapter } from 'axiosist';
+import type { CloudEvent } from 'firebase-functions/v2';
+import type { ManifestEndpoint } from 'firebase-functions/lib/runtime/manifest';
+import type { ProcessPool } from '../process-pool';
+import type { Bucket, Firestore } from '../services';
+import { MemoryFirestore } from './memory-firestore';
+import type { DocumentWrite } from './memory-firestore';
+import { MemoryBucket } from './memory-storage';
+import {
+  FIRESTORE_EVENT_TYPES,
+  STORAGE_FINALIZED_EVENT_TYPE,
+  firestoreEvent,
+  storageFinalizedEvent,
+} from './cloud-events';
+
+export interface HarnessOptions {
+  projectId?: string;
+  bucket?: string;
+  // How long nothing may be written, with no ffmpeg job running, before idle()
+  // considers the run settled. ffmpeg jobs are waited on directly (a render
+  // may stay silent for the whole render timeout); this only has to exceed
+  // the other silent gaps in the triggers: simulated workload delays and
+  // retry backoff.
+  quietMs?: number;
+}
+
+export interface DispatchRecord {
+  functionName: string;
+  event: CloudEvent<unknown>;
+  error?: Error;
+}
+
+interface RegisteredTrigger {
+  name: string;
+  fn: (raw: CloudEvent<unknown>) => unknown;
+  eventType: string;
+  documentPattern?: string;
+  bucket?: string;
+}
+
+// What the SDK attaches to every function it builds; read to route events.
+type ExportedFunction = ((raw: CloudEvent<unknown>) => unknown) & {
+  __endpoint?: ManifestEndpoint;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// How often idle() checks the ffmpeg pool while jobs are running.
+const POOL_POLL_MS = 50;
+
+// "uploads/{uploadId}" style patterns; "{name=**}" swallows the remaining segments.
+function matchesDocumentPattern(pattern: string, path: string): boolean {
+  const want = pattern.split('/');
+  const got = path.split('/');
+  for (let i = 0; i < want.length; i++) {
+    if (/^\{[^}]+=\*\*\}$/.test(want[i])) return got.length >= i + 1;
+    if (got[i] === undefined) return false;
+    if (/^\{[^}]+\}$/.test(want[i])) continue;
+    if (want[i] !== got[i]) return false;
+  }
+  return want.length === got.length;
+}
+
+function firestoreEventTypes(write: DocumentWrite): string[] {
+  const types: string[] = [FIRESTORE_EVENT_TYPES.written];
+  if (!write.before) types.push(FIRESTORE_EVENT_TYPES.created);
+  else if (!write.after) types.push(FIRESTORE_EVENT_TYPES.deleted);
+  else types.push(FIRESTORE_EVENT_TYPES.updated);
+  return types;
+}
+
+// Runs the exported triggers and `api` in this process against in-memory
+// Firestore/Storage. Writes made by the code under test are turned into
+// real-shaped CloudEvents and delivered to whichever trigger matches, on a
+// later tick, the way the emulator would.
+export class OfflineHarness {
+  readonly firestore = new MemoryFirestore();
+  readonly bucket: MemoryBucket;
+  readonly dispatched: DispatchRecord[] = [];
+  readonly projectId: string;
+
+  private readonly quietMs: number;
+  private readonly triggers: RegisteredTrigger[] = [];
+  private readonly inFlight = new Set<Promise<unknown>>();
+  private writeCount = 0;
+  private apiClient?: AxiosInstance;
+  private ffmpegPool?: ProcessPool;
+  private paused = false;
+
+  private constructor(opts: HarnessOptions) {
+    this.projectId = opts.projectId ?? 'offline-harness';
+    this.bucket = new MemoryBucket(opts.bucket ?? `${this.projectId}.appspot.com`);
+    this.quietMs = opts.quietMs ?? 600;
+  }
+
+  // The functions modules initialise firebase-admin at import time, so the
+  // environment must be in place before they are loaded.
+  static async create(opts: HarnessOptions = {}): Promise<OfflineHarness> {
+    const harness = new OfflineHarness(opts);
+    process.env.GCLOUD_PROJECT ??= harness.projectId;
+    process.env.FIREBASE_CONFIG ??= JSON.stringify({
+      projectId: harness.projectId,
+      storageBucket: harness.bucket.name,
+    });
+
+    const services = await import('../services');
+    services.overrideServices({
+      firestore: harness.firestore as unknown as Firestore,
+      bucket: harness.bucket as unknown as Bucket,
+    });
+
+    const exported: Record<string, unknown> = await import('../index');
+    harness.register(exported);
+    harness.ffmpegPool = (await import('../process-pool')).ffmpegPool;
+    harness.firestore.onWrite((write) => harness.onDocumentWrite(write));
+    harness.bucket.onFinalize((object) =>
+      harness.deliver(STORAGE_FINALIZED_EVENT_TYPE, storageFinalizedEvent(object), {
+        bucket: object.bucket,
+      }),
+    );
+    return harness;
+  }
+
+  private register(exported: Record<string, unknown>): void {
+    for (const [name, value] of Object.entries(exported)) {
+      if (typeof value !== 'function') continue;
+      const fn = value as ExportedFunction;
+      const trigger = fn.__endpoint?.eventTrigger;
+      if (!trigger) {
+        if (fn.__endpoint?.httpsTrigger && name === 'api') {
+          this.apiClient = axios.create({
+            adapter: createAdapter(value as Parameters<typeof createAdapter>[0]),
+          });
+        }
+        continue;
+      }
+      // Filters may be params expressions; the harness only routes on literals.
+      const literal = (filter: unknown) =>
+        typeof filter === 'string' ? filter : undefined;
+      this.triggers.push({
+        name,
+        fn,
+        eventType: trigger.eventType,
+        documentPattern:
+          literal(trigger.eventFilterPathPatterns?.document) ??
+          literal(trigger.eventFilters?.document),
+        bucket: literal(trigger.eventFilters?.bucket),
+      });
+    }
+  }
+
+  private onDocumentWrite(write: DocumentWrite): void {
+    for (const type of firestoreEventTypes(write)) {
+      this.deliver(
+        type,
+        firestoreEvent({ type, projectId: this.projectId, ...write }),
+        { document: write.path },
+      );
+    }
+  }
+
+  private deliver(
+    eventType: string,
+    event: CloudEvent<unknown>,
+    target: { document?: string; bucket?: string },
+  ): void {
+    this.writeCount++;
+    if (this.paused) return;
+    for (const trigger of this.triggers) {
+      if (trigger.eventType !== eventType) continue;
+      if (
+        target.document !== undefined &&
+        !(trigger.documentPattern &&
+          matchesDocumentPattern(trigger.documentPattern, target.document))
+      ) {
+        continue;
+      }
+      if (target.bucket !== undefined && trigger.bucket !== target.bucket) {
+        continue;
+      }
+      this.dispatch(trigger.name, event);
+    }
+  }
+
+  // Deliver an arbitrary raw event to a named trigger, e.g. a deliberately
+  // misrouted envelope.
+  dispatch(functionName: string, event: CloudEvent<unknown>): Promise<unknown> {
+    const trigger = this.triggers.find((t) => t.name === functionName);
+    if (!trigger) throw new Error(`No trigger exported as ${functionName}`);
+
+    const record: DispatchRecord = { functionName, event };
+    this.dispatched.push(record);
+    return this.track(
+      new Promise((resolve) => setImmediate(resolve))
+        .then(() => trigger.fn(event))
+        .catch((error: Error) => {
+          record.error = error;
+          console.error(`[harness] ${functionName} failed`, error);
+        }),
+    );
+  }
+
+  // POST to the exported `api` function through an in-memory adapter.
+  async callApi<T = unknown>(url: string, data: unknown): Promise<T> {
+    if (!this.apiClient) throw new Error('No api function exported');
+    const response = await this.track(this.apiClient.post<T>(url, data));
+    return response.data;
+  }
+
+  // Suppress event delivery, e.g. while seeding fixture documents.
+  async withoutTriggers(fn: () => Promise<void>): Promise<void> {
+    this.paused = true;
+    try {
+      await fn();
+    } finally {
+      this.paused = false;
+    }
+  }
+
+  private track<T>(promise: Promise<T>): Promise<T> {
+    this.inFlight.add(promise);
+    promise.then(
+      () => this.inFlight.delete(promise),
+      () => this.inFlight.delete(promise),
+    );
+    return promise;
+  }
+
+  private ffmpegBusy(): boolean {
+    const metrics = this.ffmpegPool?.metrics();
+    return !!metrics && metrics.running + metrics.queued > 0;
+  }
+
+  // Resolve once no dispatch or ffmpeg job is running and nothing was written
+  // for quietMs. Triggers fire work without awaiting it, so in-flight tracking
+  // alone is not enough. The default timeout leaves room for a queue of slow
+  // renders on a small pool.
+  async idle(timeoutMs = 120000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    const checkDeadline = () => {
+      if (Date.now() > deadline) {
+        throw new Error(`Harness did not go idle within ${timeoutMs}ms`);
+      }
+    };
+    for (;;) {
+      while (this.inFlight.size || this.ffmpegBusy()) {
+        if (this.inFlight.size) await Promise.allSettled([...this.inFlight]);
+        else await sleep(POOL_POLL_MS);
+        checkDeadline();
+      }
+      const seen = this.writeCount;
+      await sleep(this.quietMs);
+      if (!this.inFlight.size && !this.ffmpegBusy() && seen === this.writeCount) return;
+      checkDeadline();
+    }
+  }
+
+  failures(): DispatchRecord[] {
+    return this.dispatched.filter((r) => r.error);
+  }
+
+  reset(): void {
+    this.firestore.reset();
+    this.bucket.reset();
+    this.dispatched.length = 0;
+  }
+}
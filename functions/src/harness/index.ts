@@ -0,0 +1,13 @@
+// Emulator-free harness: in-memory Firestore/Storage plus an event dispatcher
+// that drives the exported triggers and `api` in a single Node process.
+export { OfflineHarness } from './dispatcher';
+export type { HarnessOptions, DispatchRecord } from './dispatcher';
+export { MemoryFirestore } from './memory-firestore';
+export { MemoryBucket } from './memory-storage';
+export {
+  FIRESTORE_EVENT_TYPES,
+  STORAGE_FINALIZED_EVENT_TYPE,
+  encodeFields,
+  firestoreEvent,
+  storageFinalizedEvent,
+} from './cloud-events';
@@ -0,0 +1,596 @@
+import admin from 'firebase-admin';
+import crypto from 'crypto';
+
+type DocData = Record<string, unknown>;
+type Timestamp = admin.firestore.Timestamp;
+type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+export interface StoredDocument {
+  data: DocData;
+  createTime: Timestamp;
+  updateTime: Timestamp;
+}
+
+// One committed write, as seen by the dispatcher.
+export interface DocumentWrite {
+  path: string;
+  before?: StoredDocument;
+  after?: StoredDocument;
+}
+
+export type WriteListener = (write: DocumentWrite) => void;
+
+const AUTO_ID_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+function autoId(): string {
+  const bytes = crypto.randomBytes(20);
+  let id = '';
+  for (const b of bytes) id += AUTO_ID_ALPHABET[b % AUTO_ID_ALPHABET.length];
+  return id;
+}
+
+function isPlainObject(value: unknown): value is DocData {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as unknown as T;
+  if (isPlainObject(value)) {
+    const out: DocData = {};
+    for (const [k, v] of Object.entries(value)) out[k] = clone(v);
+    return out as T;
+  }
+  // Timestamps, Buffers, references and sentinels are treated as immutable.
+  return value;
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => valuesEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((k) => valuesEqual(a[k], b[k]))
+    );
+  }
+  return comparable(a) === comparable(b);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (x === y) return 0;
+  if (x === undefined) return -1;
+  if (y === undefined) return 1;
+  // Stored values are scalars by now (timestamps were reduced to millis).
+  return (x as string | number) < (y as string | number) ? -1 : 1;
+}
+
+function getField(data: DocData | undefined, fieldPath: string): unknown {
+  let cur: unknown = data;
+  for (const part of fieldPath.split('.')) {
+    if (!isPlainObject(cur)) return undefined;
+    cur = cur[part];
+  }
+  return cur;
+}
+
+const DELETE = Symbol('delete');
+
+// The parts of the admin SDK's FieldValue sentinels that are read here.
+interface FieldTransform {
+  methodName: string;
+  operand?: number;
+  elements?: unknown[];
+}
+
+// Resolve a FieldValue sentinel against the value currently stored.
+function resolveValue(existing: unknown, value: unknown): unknown {
+  if (value instanceof admin.firestore.FieldValue) {
+    const transform = value as unknown as FieldTransform;
+    switch (transform.methodName) {
+      case 'FieldValue.serverTimestamp':
+        return admin.firestore.Timestamp.now();
+      case 'FieldValue.delete':
+        return DELETE;
+      case 'FieldValue.increment':
+        return (typeof existing === 'number' ? existing : 0) + (transform.operand ?? 0);
+      case 'FieldValue.arrayUnion': {
+        const out = Array.isArray(existing) ? [...existing] : [];
+        for (const el of transform.elements ?? []) {
+          if (!out.some((v) => valuesEqual(v, el))) out.push(clone(el));
+        }
+        return out;
+      }
+      case 'FieldValue.arrayRemove': {
+        const out = Array.isArray(existing) ? existing : [];
+        return out.filter(
+          (v) => !(transform.elements ?? []).some((el) => valuesEqual(v, el)),
+        );
+      }
+      default:
+        throw new Error(`Unsupported FieldValue ${transform.methodName}`);
+    }
+  }
+  if (isPlainObject(value)) {
+    return mergeInto(undefined, value);
+  }
+  return clone(value);
+}
+
+// Deep-merge `patch` into `base` the way set(..., { merge: true }) does.
+function mergeInto(base: unknown, patch: DocData): DocData {
+  const out: DocData = isPlainObject(base) ? clone(base) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      throw new Error(`Cannot use "undefined" as a Firestore value (${key})`);
+    }
+    const next = isPlainObject(value)
+      ? mergeInto(out[key], value)
+      : resolveValue(out[key], value);
+    if (next === DELETE) delete out[key];
+    else out[key] = next;
+  }
+  return out;
+}
+
+function setField(data: DocData, fieldPath: string, value: unknown): void {
+  const parts = fieldPath.split('.');
+  let cur = data;
+  for (const part of parts.slice(0, -1)) {
+    const next = cur[part];
+    if (isPlainObject(next)) {
+      cur = next;
+    } else {
+      const created: DocData = {};
+      cur[part] = created;
+      cur = created;
+    }
+  }
+  const last = parts[parts.length - 1];
+  const next = resolveValue(cur[last], value);
+  if (next === DELETE) delete cur[last];
+  else cur[last] = next;
+}
+
+// Errors carry the gRPC status code, as the Firestore client's do.
+function firestoreError(code: number, message: string): Error & { code: number } {
+  return Object.assign(new Error(message), { code });
+}
+
+function notFound(path: string): Error {
+  return firestoreError(5, `5 NOT_FOUND: No document to update: ${path}`);
+}
+
+function alreadyExists(path: string): Error {
+  return firestoreError(6, `6 ALREADY_EXISTS: Document already exists: ${path}`);
+}
+
+export class MemoryDocumentSnapshot {
+  constructor(
+    readonly ref: MemoryDocumentReference,
+    private readonly stored: StoredDocument | undefined,
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  get createTime(): Timestamp | undefined {
+    return this.stored?.createTime;
+  }
+
+  get updateTime(): Timestamp | undefined {
+    return this.stored?.updateTime;
+  }
+
+  data(): DocData | undefined {
+    return this.stored ? clone(this.stored.data) : undefined;
+  }
+
+  get(fieldPath: string): unknown {
+    return clone(getField(this.stored?.data, fieldPath));
+  }
+}
+
+export class MemoryQuerySnapshot {
+  constructor(readonly docs: MemoryDocumentSnapshot[]) {}
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(cb: (doc: MemoryDocumentSnapshot) => void): void {
+    this.docs.forEach(cb);
+  }
+}
+
+export class MemoryDocumentReference {
+  constructor(
+    readonly firestore: MemoryFirestore,
+    readonly path: string,
+  ) {}
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  get parent(): MemoryCollectionReference {
+    return new MemoryCollectionReference(
+      this.firestore,
+      this.path.split('/').slice(0, -1).join('/'),
+    );
+  }
+
+  collection(name: string): MemoryCollectionReference {
+    return new MemoryCollectionReference(this.firestore, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<MemoryDocumentSnapshot> {
+    return new MemoryDocumentSnapshot(this, this.firestore.read(this.path));
+  }
+
+  async set(data: DocData, options?: { merge?: boolean }): Promise<void> {
+    this.applySet(data, options);
+  }
+
+  async create(data: DocData): Promise<void> {
+    this.applyCreate(data);
+  }
+
+  async update(data: DocData): Promise<void> {
+    this.applyUpdate(data);
+  }
+
+  async delete(): Promise<void> {
+    this.firestore.write(this.path, undefined);
+  }
+
+  // Synchronous forms, shared with MemoryTransaction's commit.
+  applySet(data: DocData, options?: { merge?: boolean }): void {
+    const existing = this.firestore.read(this.path);
+    const base = options?.merge ? existing?.data : undefined;
+    this.firestore.write(this.path, mergeInto(base, data));
+  }
+
+  applyCreate(data: DocData): void {
+    if (this.firestore.read(this.path)) throw alreadyExists(this.path);
+    this.firestore.write(this.path, mergeInto(undefined, data));
+  }
+
+  applyUpdate(data: DocData): void {
+    const existing = this.firestore.read(this.path);
+    if (!existing) throw notFound(this.path);
+    const next = clone(existing.data);
+    for (const [fieldPath, value] of Object.entries(data)) {
+      setField(next, fieldPath, value);
+    }
+    this.firestore.write(this.path, next);
+  }
+}
+
+export class MemoryQuery {
+  constructor(
+    readonly firestore: MemoryFirestore,
+    readonly collectionPath: string,
+    protected readonly filters: Array<{ field: string; op: WhereOp; value: unknown }> = [],
+    protected readonly order: Array<{ field: string; dir: 'asc' | 'desc' }> = [],
+    protected readonly max?: number,
+    // Cursor from startAfter(): the ordered field values, then the doc path
+    protected readonly cursor?: { values: unknown[]; path: string },
+  ) {}
+
+  where(field: string, op: WhereOp, value: unknown): MemoryQuery {
+    return new MemoryQuery(
+      this.firestore,
+      this.collectionPath,
+      [...this.filters, { field, op, value }],
+      this.order,
+      this.max,
+      this.cursor,
+    );
+  }
+
+  orderBy(field: string, dir: 'asc' | 'desc' = 'asc'): MemoryQuery {
+    return new MemoryQuery(
+      this.firestore,
+      this.collectionPath,
+      this.filters,
+      [...this.order, { field, dir }],
+      this.max,
+      this.cursor,
+    );
+  }
+
+  limit(n: number): MemoryQuery {
+    return new MemoryQuery(
+      this.firestore,
+      this.collectionPath,
+      this.filters,
+      this.order,
+      n,
+      this.cursor,
+    );
+  }
+
+  // Resume after a snapshot from an earlier page of the same ordered query.
+  startAfter(snapshot: MemoryDocumentSnapshot): MemoryQuery {
+    return new MemoryQuery(
+      this.firestore,
+      this.collectionPath,
+      this.filters,
+      this.order,
+      this.max,
+      {
+        values: this.order.map(({ field }) => snapshot.get(field)),
+        path: snapshot.ref.path,
+      },
+    );
+  }
+
+  // Order fields first, then the doc path (Firestore's implicit __name__
+  // ordering), so pages never overlap or skip ties.
+  private compareKeys(
+    a: { values: unknown[]; path: string },
+    b: { values: unknown[]; path: string },
+  ): number {
+    for (let i = 0; i < this.order.length; i++) {
+      const diff =
+        compareValues(a.values[i], b.values[i]) * (this.order[i].dir === 'desc' ? -1 : 1);
+      if (diff !== 0) return diff;
+    }
+    return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+  }
+
+  async get(): Promise<MemoryQuerySnapshot> {
+    let entries = this.firestore
+      .list(this.collectionPath)
+      .filter(([, doc]) =>
+        this.filters.every(({ field, op, value }) => {
+          const actual = getField(doc.data, field);
+          if (actual === undefined) return false;
+          switch (op) {
+            case '==':
+              return valuesEqual(actual, value);
+            case '!=':
+              return !valuesEqual(actual, value);
+            case '<':
+              return compareValues(actual, value) < 0;
+            case '<=':
+              return compareValues(actual, value) <= 0;
+            case '>':
+              return compareValues(actual, value) > 0;
+            case '>=':
+              return compareValues(actual, value) >= 0;
+            case 'in':
+              return (value as unknown[]).some((v) => valuesEqual(actual, v));
+            case 'array-contains':
+              return (
+                Array.isArray(actual) &&
+                actual.some((v) => valuesEqual(v, value))
+              );
+          }
+        }),
+      );
+
+    if (this.order.length || this.cursor) {
+      const key = ([path, doc]: (typeof entries)[number]) => ({
+        values: this.order.map(({ field }) => getField(doc.data, field)),
+        path,
+      });
+      entries = [...entries].sort((a, b) => this.compareKeys(key(a), key(b)));
+      const { cursor } = this;
+      if (cursor) entries = entries.filter((e) => this.compareKeys(key(e), cursor) > 0);
+    }
+    if (this.max !== undefined) entries = entries.slice(0, this.max);
+
+    return new MemoryQuerySnapshot(
+      entries.map(
+        ([path, doc]) =>
+          new MemoryDocumentSnapshot(
+            new MemoryDocumentReference(this.firestore, path),
+            doc,
+          ),
+      ),
+    );
+  }
+}
+
+export class MemoryCollectionReference extends MemoryQuery {
+  constructor(firestore: MemoryFirestore, readonly path: string) {
+    super(firestore, path);
+  }
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  doc(id: string = autoId()): MemoryDocumentReference {
+    return new MemoryDocumentReference(this.firestore, `${this.path}/${id}`);
+  }
+
+  async add(data: DocData): Promise<MemoryDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+
+  async listDocuments(): Promise<MemoryDocumentReference[]> {
+    return this.firestore
+      .list(this.path)
+      .map(([path]) => new MemoryDocumentReference(this.firestore, path));
+  }
+}
+
+interface TransactionWrite {
+  ref: MemoryDocumentReference;
+  kind: 'set' | 'create' | 'update' | 'delete';
+  apply: () => void;
+}
+
+// Optimistic transaction: remembers the stored version of every document it
+// read and is retried if any of them changed before commit. Commit itself is
+// synchronous, so it is atomic with respect to other callbacks.
+export class MemoryTransaction {
+  private readonly reads = new Map<string, StoredDocument | undefined>();
+  private readonly writes: TransactionWrite[] = [];
+
+  constructor(private readonly firestore: MemoryFirestore) {}
+
+  get(ref: MemoryDocumentReference): Promise<MemoryDocumentSnapshot>;
+  get(query: MemoryQuery): Promise<MemoryQuerySnapshot>;
+  async get(
+    target: MemoryDocumentReference | MemoryQuery,
+  ): Promise<MemoryDocumentSnapshot | MemoryQuerySnapshot> {
+    if (this.writes.length) {
+      throw new Error('Firestore transactions require all reads before writes');
+    }
+    if (target instanceof MemoryDocumentReference) {
+      const stored = this.firestore.read(target.path);
+      this.reads.set(target.path, stored);
+      return new MemoryDocumentSnapshot(target, stored);
+    }
+    const snap = await target.get();
+    for (const doc of snap.docs) {
+      this.reads.set(doc.ref.path, this.firestore.read(doc.ref.path));
+    }
+    return snap;
+  }
+
+  set(
+    ref: MemoryDocumentReference,
+    data: DocData,
+    options?: { merge?: boolean },
+  ): this {
+    this.writes.push({ ref, kind: 'set', apply: () => ref.applySet(data, options) });
+    return this;
+  }
+
+  create(ref: MemoryDocumentReference, data: DocData): this {
+    this.writes.push({ ref, kind: 'create', apply: () => ref.applyCreate(data) });
+    return this;
+  }
+
+  update(ref: MemoryDocumentReference, data: DocData): this {
+    this.writes.push({ ref, kind: 'update', apply: () => ref.applyUpdate(data) });
+    return this;
+  }
+
+  delete(ref: MemoryDocumentReference): this {
+    this.writes.push({
+      ref,
+      kind: 'delete',
+      apply: () => this.firestore.write(ref.path, undefined),
+    });
+    return this;
+  }
+
+  isStale(): boolean {
+    for (const [path, seen] of this.reads) {
+      if (this.firestore.read(path) !== seen) return true;
+    }
+    return false;
+  }
+
+  commit(): void {
+    // Validate up front so a failing update does not leave a partial commit.
+    const exists = new Set<string>();
+    for (const { ref, kind } of this.writes) {
+      const present = exists.has(ref.path) || !!this.firestore.read(ref.path);
+      if (kind === 'update' && !present) throw notFound(ref.path);
+      if (kind === 'create' && present) throw alreadyExists(ref.path);
+      if (kind === 'delete') exists.delete(ref.path);
+      else exists.add(ref.path);
+    }
+    for (const write of this.writes) write.apply();
+  }
+}
+
+// Minimal in-memory stand-in for admin.firestore.Firestore: documents live in a
+// Map keyed by path and every committed write is reported to listeners.
+export class MemoryFirestore {
+  private readonly docs = new Map<string, StoredDocument>();
+  private readonly listeners: WriteListener[] = [];
+
+  collection(path: string): MemoryCollectionReference {
+    return new MemoryCollectionReference(this, path);
+  }
+
+  doc(path: string): MemoryDocumentReference {
+    return new MemoryDocumentReference(this, path);
+  }
+
+  async runTransaction<T>(
+    fn: (tx: MemoryTransaction) => Promise<T>,
+    options: { maxAttempts?: number } = {},
+  ): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? 5;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const tx = new MemoryTransaction(this);
+      const result = await fn(tx);
+      if (tx.isStale()) continue;
+      tx.commit();
+      return result;
+    }
+    throw firestoreError(10, '10 ABORTED: Too much contention on these documents.');
+  }
+
+  onWrite(listener: WriteListener): void {
+    this.listeners.push(listener);
+  }
+
+  read(path: string): StoredDocument | undefined {
+    return this.docs.get(path);
+  }
+
+  // Direct children of a collection, in path order.
+  list(collectionPath: string): Array<[string, StoredDocument]> {
+    const depth = collectionPath.split('/').length + 1;
+    return [...this.docs.entries()]
+      .filter(
+        ([path]) =>
+          path.startsWith(`${collectionPath}/`) &&
+          path.split('/').length === depth,
+      )
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  write(path: string, data: DocData | undefined): void {
+    const before = this.docs.get(path);
+    let after: StoredDocument | undefined;
+    if (data === undefined) {
+      this.docs.delete(path);
+    } else {
+      const now = admin.firestore.Timestamp.now();
+      after = { data, createTime: before?.createTime ?? now, updateTime: now };
+      this.docs.set(path, after);
+    }
+    if (!before && !after) return;
+    for (const listener of this.listeners) listener({ path, before, after });
+  }
+
+  reset(): void {
+    this.docs.clear();
+  }
+}
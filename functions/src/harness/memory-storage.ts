@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+
+// Shape of the object resource carried by storage CloudEvents (StorageObjectData).
+export interface StoredObject {
+  kind: 'storage#object';
+  id: string;
+  bucket: string;
+  name: string;
+  generation: string;
+  metageneration: string;
+  contentType: string;
+  size: string;
+  md5Hash: string;
+  crc32c?: string;
+  storageClass: string;
+  timeCreated: string;
+  updated: string;
+  metadata: Record<string, string>;
+  contents: Buffer;
+}
+
+export type FinalizeListener = (object: StoredObject) => void;
+
+interface SaveOptions {
+  contentType?: string;
+  metadata?: { contentType?: string; metadata?: Record<string, unknown> };
+}
+
+function notFound(name: string): Error & { code: number } {
+  return Object.assign(new Error(`No such object: ${name}`), { code: 404 });
+}
+
+export class MemoryFile {
+  constructor(
+    readonly bucket: MemoryBucket,
+    readonly name: string,
+  ) {}
+
+  async save(data: string | Buffer, options: SaveOptions = {}): Promise<void> {
+    this.bucket.put(this.name, Buffer.from(data), options);
+  }
+
+  async exists(): Promise<[boolean]> {
+    return [this.bucket.get(this.name) !== undefined];
+  }
+
+  async download(): Promise<[Buffer]> {
+    const object = this.bucket.get(this.name);
+    if (!object) throw notFound(this.name);
+    return [Buffer.from(object.contents)];
+  }
+
+  async getMetadata(): Promise<[Omit<StoredObject, 'contents'>]> {
+    const object = this.bucket.get(this.name);
+    if (!object) throw notFound(this.name);
+    const { contents: _contents, ...metadata } = object;
+    return [metadata];
+  }
+
+  async delete(options: { ignoreNotFound?: boolean } = {}): Promise<void> {
+    if (!this.bucket.remove(this.name) && !options.ignoreNotFound) {
+      throw notFound(this.name);
+    }
+  }
+}
+
+// Minimal in-memory stand-in for a Cloud Storage bucket. Every completed write
+// is reported to finalize listeners, like the emulator's object.v1.finalized.
+export class MemoryBucket {
+  private readonly objects = new Map<string, StoredObject>();
+  private readonly listeners: FinalizeListener[] = [];
+  private generation = Date.now() * 1000;
+
+  constructor(readonly name: string) {}
+
+  file(name: string): MemoryFile {
+    return new MemoryFile(this, name);
+  }
+
+  async upload(
+    localPath: string,
+    options: SaveOptions & { destination?: string } = {},
+  ): Promise<[MemoryFile]> {
+    const name = options.destination ?? localPath.split('/').pop()!;
+    this.put(name, await fs.readFile(localPath), options);
+    return [this.file(name)];
+  }
+
+  async getFiles(
+    query: { prefix?: string } = {},
+  ): Promise<[MemoryFile[]]> {
+    const prefix = query.prefix ?? '';
+    const names = [...this.objects.keys()]
+      .filter((name) => name.startsWith(prefix))
+      .sort();
+    return [names.map((name) => this.file(name))];
+  }
+
+  onFinalize(listener: FinalizeListener): void {
+    this.listeners.push(listener);
+  }
+
+  get(name: string): StoredObject | undefined {
+    return this.objects.get(name);
+  }
+
+  put(name: string, contents: Buffer, options: SaveOptions): StoredObject {
+    const now = new Date().toISOString();
+    const existing = this.objects.get(name);
+    const generation = String(++this.generation);
+    const metadata = Object.fromEntries(
+      Object.entries(options.metadata?.metadata ?? {}).map(([k, v]) => [
+        k,
+        String(v),
+      ]),
+    );
+    const object: StoredObject = {
+      kind: 'storage#object',
+      id: `${this.name}/${name}/${generation}`,
+      bucket: this.name,
+      name,
+      generation,
+      metageneration: '1',
+      contentType:
+        options.contentType ??
+        options.metadata?.contentType ??
+        'application/octet-stream',
+      size: String(contents.length),
+      md5Hash: crypto.createHash('md5').update(contents).digest('base64'),
+      storageClass: 'STANDARD',
+      timeCreated: existing?.timeCreated ?? now,
+      updated: now,
+      metadata,
+      contents,
+    };
+    this.objects.set(name, object);
+    for (const listener of this.listeners) listener(object);
+    return object;
+  }
+
+  remove(name: string): boolean {
+    return this.objects.delete(name);
+  }
+
+  reset(): void {
+    this.objects.clear();
+  }
+}
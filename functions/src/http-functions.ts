@@ -1,5 +1,6 @@
 import { onRequest } from 'firebase-functions/v2/https';
 import { app } from './express-app';
+import { reproFactors } from './repro-factors';
 
 // Create HTTP functions like parent project
 const httpFunctionOptions = {
@@ -7,7 +8,7 @@ const httpFunctionOptions = {
     memory: '512MiB' as const,
     maxInstances: 10,
     invoker: 'private' as const,
-    concurrency: 1000,
+    concurrency: reproFactors().highConcurrency ? 1000 : 1,
   },
 };
 
@@ -5,4 +5,11 @@ export * from './http-functions';
 export { onUploadUpdate } from './firestore-triggers';
 
 // Export Storage triggers from storage-triggers module
-export { onUploadFileFinalize } from './storage-triggers';
\ No newline at end of file
+export { onUploadFileFinalize } from './storage-triggers';
+
+// Export scheduled maintenance jobs from scheduled-functions module
+export {
+  collectStorageGarbage,
+  markStalledUploads,
+  sweepExpiredTokens,
+} from './scheduled-functions';
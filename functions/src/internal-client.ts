@@ -0,0 +1,377 @@
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { createAdapter } from 'axiosist';
+import express from 'express';
+import {
+  CORRELATION_HEADER,
+  currentCorrelationId,
+  logger,
+  withCorrelation,
+} from './correlation';
+import { recordSpan } from './timeline';
+import { abortable, cancellationError, isCancelled, throwIfCancelled } from './cancellation';
+import { parseBody, RequestValidationError } from './request-schema';
+import type { Schema } from './request-schema';
+
+// How internal calls between routes travel:
+//   in-memory  axiosist adapter against the registered Express app
+//   loopback   real HTTP to the emulator's `api` function URL
+//   direct     the route's handler function, no HTTP layer at all
+export type InternalCallMode = 'in-memory' | 'loopback' | 'direct';
+
+export const INTERNAL_CALL_MODES: InternalCallMode[] = [
+  'in-memory',
+  'loopback',
+  'direct',
+];
+
+export const DEFAULT_INTERNAL_CALL_MODE: InternalCallMode = 'in-memory';
+
+// A route's body schema and its handler, which only ever sees a valid body.
+// Without T the body is unknown and has to be narrowed through the schema.
+// `handler` is a method so routes with typed bodies can share one registry.
+export interface InternalRoute<T = unknown> {
+  schema: Schema<T>;
+  handler(body: T): Promise<unknown>;
+}
+
+export function defineRoute<T>(
+  schema: Schema<T>,
+  handler: (body: T) => Promise<unknown>,
+): InternalRoute<T> {
+  return { schema, handler };
+}
+
+// Thrown by route handlers to answer with a non-2xx status.
+export class InternalCallError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = 'InternalCallError';
+  }
+}
+
+// Thrown by the client when an internal call fails in any mode. `response` is
+// what the callee answered (an ApiErrorBody when it is one of our routes).
+export class UpstreamCallError extends InternalCallError {
+  constructor(
+    status: number,
+    message: string,
+    readonly upstream: { url: string; mode: string; response: unknown },
+  ) {
+    super(status, message, upstream);
+    this.name = 'UpstreamCallError';
+  }
+}
+
+//   invalid-request  body failed its schema (or was not JSON)
+//   not-found        no route registered for the URL
+//   cancelled        the upload's run was cancelled (499)
+//   upstream-failed  an internal call this route made failed (502)
+//   failed           the handler answered with an InternalCallError
+//   internal         anything else (500)
+export type ApiErrorCode =
+  | 'invalid-request'
+  | 'not-found'
+  | 'cancelled'
+  | 'upstream-failed'
+  | 'failed'
+  | 'internal';
+
+// One failed internal call beneath an error, as reported by its callee.
+export interface UpstreamFailure {
+  route: string;
+  mode: string;
+  status: number;
+  code: ApiErrorCode | null;
+  error: string;
+  correlationId: string | null;
+  details: Record<string, unknown>;
+}
+
+// Every non-2xx answer from a registered route has this shape.
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  status: number;
+  route: string | null;
+  correlationId: string | null;
+  details: Record<string, unknown>;
+  // Failed internal calls beneath this one, nearest first
+  upstream: UpstreamFailure[];
+}
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  const body = value as Partial<ApiErrorBody> | null;
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    typeof body.error === 'string' &&
+    typeof body.code === 'string' &&
+    Array.isArray(body.upstream)
+  );
+}
+
+function upstreamChain(error: UpstreamCallError): UpstreamFailure[] {
+  const { url, mode, response } = error.upstream;
+  const body = isApiErrorBody(response) ? response : null;
+  return [
+    {
+      route: url,
+      mode,
+      status: error.status,
+      code: body?.code ?? null,
+      error: body?.error ?? error.message,
+      correlationId: body?.correlationId ?? null,
+      details: body?.details ?? {},
+    },
+    ...(body?.upstream ?? []),
+  ];
+}
+
+// Map anything a handler (or body parsing) threw to the shared error shape.
+export function toApiErrorBody(error: unknown, route: string | null): ApiErrorBody {
+  const body = (
+    code: ApiErrorCode,
+    status: number,
+    details: Record<string, unknown>,
+    upstream: UpstreamFailure[] = [],
+  ): ApiErrorBody => ({
+    error: error instanceof Error ? error.message : String(error),
+    code,
+    status,
+    route,
+    correlationId: currentCorrelationId() ?? null,
+    details,
+    upstream,
+  });
+
+  if (error instanceof RequestValidationError) {
+    return body('invalid-request', 400, { problems: error.problems });
+  }
+  // 499: the caller already gave up on a cancelled run
+  if (isCancelled(error)) return body('cancelled', 499, { cancelled: error.reason });
+  if (error instanceof UpstreamCallError) {
+    const { url, mode } = error.upstream;
+    // A callee stopped by cancellation is not a failure of this route either
+    const cancelled = error.status === 499;
+    return body(
+      cancelled ? 'cancelled' : 'upstream-failed',
+      cancelled ? 499 : 502,
+      { url, mode },
+      upstreamChain(error),
+    );
+  }
+  if (error instanceof InternalCallError) {
+    return body(error.status === 404 ? 'not-found' : 'failed', error.status, error.details);
+  }
+  // body-parser marks malformed JSON and oversized bodies with a 4xx status
+  const { type, status } = (error ?? {}) as { type?: unknown; status?: unknown };
+  if (typeof type === 'string' && typeof status === 'number' && status >= 400 && status < 500) {
+    return body('invalid-request', status, { type });
+  }
+  return body('internal', 500, error instanceof Error ? { name: error.name } : {});
+}
+
+// Explicit mode > INTERNAL_CALL_MODE env > default.
+export function resolveInternalCallMode(explicit?: string): InternalCallMode {
+  const mode = explicit ?? process.env.INTERNAL_CALL_MODE ?? DEFAULT_INTERNAL_CALL_MODE;
+  if (!INTERNAL_CALL_MODES.includes(mode as InternalCallMode)) {
+    throw new Error(
+      `Unknown internal call mode "${mode}" (expected one of ${INTERNAL_CALL_MODES.join(', ')})`,
+    );
+  }
+  return mode as InternalCallMode;
+}
+
+// INTERNAL_API_URL > the emulator URL of the `api` HTTP function.
+export function loopbackBaseUrl(functionName = 'api'): string {
+  if (process.env.INTERNAL_API_URL) return process.env.INTERNAL_API_URL;
+  const project =
+    process.env.GCLOUD_PROJECT ??
+    JSON.parse(process.env.FIREBASE_CONFIG ?? '{}').projectId ??
+    'demo-project';
+  const host = process.env.FUNCTIONS_EMULATOR_HOST ?? '127.0.0.1:5001';
+  const region = process.env.FUNCTION_REGION ?? 'us-central1';
+  return `http://${host}/${project}/${region}/${functionName}`;
+}
+
+export class InternalClient {
+  private readonly routes = new Map<string, InternalRoute>();
+  // Every route of this client is mounted here, ahead of the error middleware
+  private router: express.Router | undefined;
+  // One axios instance per transport, built on first use and reused.
+  private readonly instances = new Map<InternalCallMode, AxiosInstance>();
+
+  constructor(
+    private readonly opts: {
+      name: string;
+      getApp: () => express.Application | undefined;
+      mode?: InternalCallMode;
+      timeoutMs?: number;
+      // Build a new axios instance for every call (repro factor axiosPerRequest).
+      newInstancePerCall?: boolean;
+    },
+  ) {}
+
+  get mode(): InternalCallMode {
+    return this.opts.mode ?? resolveInternalCallMode();
+  }
+
+  // The one place routes are mounted: on the app (for in-memory and loopback)
+  // and kept for direct calls. Bodies are checked against each route's schema
+  // before its handler runs. Each request runs under the caller's correlation
+  // ID header, or starts a new chain, and every failure is answered by
+  // errorMiddleware as an ApiErrorBody.
+  registerRoutes(routes: Record<string, InternalRoute>): void {
+    const router = this.mountRouter();
+    for (const [url, route] of Object.entries(routes)) {
+      this.routes.set(url, route);
+      router.post(url, (req, res, next) =>
+        withCorrelation(req.header(CORRELATION_HEADER), async () => {
+          try {
+            res.json(await this.runHandler(url, route, req.body, 'http'));
+          } catch (error) {
+            next(error);
+          }
+        }),
+      );
+    }
+  }
+
+  // Mounted once per client. Routes added to the router later still sit in
+  // front of the not-found and error handlers, and a body the JSON parser
+  // rejected skips straight to the error handler.
+  private mountRouter(): express.Router {
+    if (this.router) return this.router;
+    const app = this.opts.getApp();
+    if (!app) throw new Error(`${this.opts.name}: no Express app registered`);
+    const router = express.Router();
+    app.use(router);
+    app.use((req, _res, next) => {
+      next(new InternalCallError(404, `No route registered for ${req.method} ${req.path}`));
+    });
+    app.use(this.errorMiddleware());
+    this.router = router;
+    return router;
+  }
+
+  private errorMiddleware(): express.ErrorRequestHandler {
+    return (error, req, res, next) => {
+      if (res.headersSent) return next(error);
+      const body = toApiErrorBody(error, req.path);
+      body.correlationId ??= req.header(CORRELATION_HEADER) ?? null;
+      const context = {
+        client: this.opts.name,
+        route: body.route,
+        status: body.status,
+        code: body.code,
+        error: body.error,
+        correlationId: body.correlationId,
+        upstream: body.upstream,
+      };
+      if (body.code === 'internal') {
+        logger.error('api request failed', {
+          ...context,
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      } else if (body.status >= 500) {
+        logger.error('api request failed', context);
+      } else if (body.code !== 'cancelled') {
+        logger.warn('api request rejected', context);
+      }
+      res.status(body.status).json(body);
+    };
+  }
+
+  // Body check plus handler invocation, recorded as an `http` span on the timeline.
+  private runHandler(
+    url: string,
+    route: InternalRoute,
+    body: unknown,
+    via: 'http' | 'direct',
+  ): Promise<unknown> {
+    const iteration = (body as { iteration?: unknown } | undefined)?.iteration;
+    return recordSpan(
+      {
+        kind: 'http',
+        name: url,
+        iteration: typeof iteration === 'number' ? iteration : null,
+        args: { client: this.opts.name, via },
+      },
+      async () => route.handler(parseBody(route.schema, body, url)),
+    );
+  }
+
+  private instance(mode: Exclude<InternalCallMode, 'direct'>): AxiosInstance {
+    let instance = this.opts.newInstancePerCall ? undefined : this.instances.get(mode);
+    if (!instance) {
+      const timeout = this.opts.timeoutMs ?? 30000;
+      if (mode === 'in-memory') {
+        const app = this.opts.getApp();
+        if (!app) throw new Error(`${this.opts.name}: no Express app registered`);
+        instance = axios.create({ adapter: createAdapter(app), timeout });
+      } else {
+        instance = axios.create({ baseURL: loopbackBaseUrl(), timeout });
+      }
+      this.instances.set(mode, instance);
+    }
+    return instance;
+  }
+
+  // Aborting `signal` cancels the axios request (or stops waiting on a direct
+  // handler) and rejects with CancelledError.
+  async post<T = any>(url: string, data: unknown, opts: { signal?: AbortSignal } = {}): Promise<T> {
+    const { signal } = opts;
+    throwIfCancelled(signal);
+    const mode = this.mode;
+    logger.debug?.('internal call', { client: this.opts.name, mode, url });
+
+    if (mode === 'direct') {
+      const route = this.routes.get(url);
+      if (!route) {
+        throw new UpstreamCallError(404, `No internal route registered for ${url}`, {
+          url,
+          mode,
+          response: null,
+        });
+      }
+      try {
+        return (await abortable(this.runHandler(url, route, data, 'direct'), signal)) as T;
+      } catch (error) {
+        if (isCancelled(error)) throw error;
+        // Same error (and upstream chain) the HTTP transports would report
+        const response = toApiErrorBody(error, url);
+        throw new UpstreamCallError(
+          response.status,
+          `Internal call ${url} failed over ${mode}: ${response.error}`,
+          { url, mode, response },
+        );
+      }
+    }
+
+    const correlationId = currentCorrelationId();
+    try {
+      // The axiosist adapter never looks at the signal, hence abortable()
+      const response = await abortable(
+        this.instance(mode).post<T>(url, data, {
+          headers: correlationId ? { [CORRELATION_HEADER]: correlationId } : {},
+          signal,
+        }),
+        signal,
+      );
+      return response.data;
+    } catch (error) {
+      if (signal?.aborted && axios.isCancel(error)) throw cancellationError(signal);
+      if (!axios.isAxiosError(error)) throw error;
+      throw new UpstreamCallError(
+        error.response?.status ?? 502,
+        `Internal call ${url} failed over ${mode}: ${error.message}`,
+        { url, mode, response: error.response?.data ?? null },
+      );
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import * as os from 'os';
+import { cancellationError } from './cancellation';
+import { logger } from './correlation';
+
+// Jobs wait for a free slot in arrival order (fifo) or by priority, highest
+// first and FIFO within a priority.
+export type QueueOrder = 'fifo' | 'priority';
+
+export const QUEUE_ORDERS: QueueOrder[] = ['fifo', 'priority'];
+
+export interface ProcessPoolOptions {
+  name: string;
+  maxParallel: number;
+  order: QueueOrder;
+  // Jobs allowed to wait at once; 0 means unbounded (callers just wait longer).
+  maxQueued: number;
+}
+
+export interface ProcessPoolMetrics {
+  name: string;
+  maxParallel: number;
+  order: QueueOrder;
+  running: number;
+  queued: number;
+  maxQueuedSeen: number;
+  started: number;
+  completed: number;
+  failed: number;
+  rejected: number;
+  cancelled: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+// Handed to a job once it holds a slot.
+export interface PoolSlot {
+  waitMs: number;
+  // Jobs that were already waiting when this one was enqueued.
+  queuedAhead: number;
+}
+
+// Thrown instead of queueing when maxQueued jobs are already waiting.
+export class PoolSaturatedError extends Error {
+  constructor(
+    readonly pool: string,
+    readonly queued: number,
+  ) {
+    super(`${pool} pool queue is full (${queued} waiting)`);
+    this.name = 'PoolSaturatedError';
+  }
+}
+
+interface QueuedJob {
+  label: string;
+  priority: number;
+  seq: number;
+  enqueuedAt: number;
+  queuedAhead: number;
+  start: (slot: PoolSlot) => void;
+  // Set for jobs with a signal; detaches the abort listener once started.
+  started?: () => void;
+}
+
+export class ProcessPool {
+  private readonly queue: QueuedJob[] = [];
+  private running = 0;
+  private seq = 0;
+  private readonly counters = {
+    maxQueuedSeen: 0,
+    started: 0,
+    completed: 0,
+    failed: 0,
+    rejected: 0,
+    cancelled: 0,
+    totalWaitMs: 0,
+    maxWaitMs: 0,
+  };
+
+  constructor(private readonly opts: ProcessPoolOptions) {}
+
+  // Resolves with fn's result once fn has run in a slot. fn's own timeout
+  // starts when it gets the slot, not when it is queued. A job whose signal
+  // aborts while it waits leaves the queue and rejects with CancelledError;
+  // once running, stopping it is up to fn.
+  run<T>(
+    job: { label: string; priority?: number; signal?: AbortSignal },
+    fn: (slot: PoolSlot) => Promise<T>,
+  ): Promise<T> {
+    const { signal } = job;
+    if (signal?.aborted) {
+      this.counters.cancelled++;
+      return Promise.reject(cancellationError(signal));
+    }
+    if (this.opts.maxQueued > 0 && this.queue.length >= this.opts.maxQueued) {
+      this.counters.rejected++;
+      logger.warn('process pool queue full', { label: job.label, ...this.metrics() });
+      return Promise.reject(new PoolSaturatedError(this.opts.name, this.queue.length));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedJob = {
+        label: job.label,
+        priority: job.priority ?? 0,
+        seq: this.seq++,
+        enqueuedAt: Date.now(),
+        queuedAhead: this.queue.length,
+        start: (slot) => {
+          fn(slot).then(
+            (result) => {
+              this.counters.completed++;
+              resolve(result);
+            },
+            (error) => {
+              this.counters.failed++;
+              reject(error);
+            },
+          ).finally(() => {
+            this.running--;
+            this.drain();
+          });
+        },
+      };
+      if (signal) {
+        const onAbort = () => {
+          const at = this.queue.indexOf(queued);
+          if (at === -1) return;
+          this.queue.splice(at, 1);
+          this.counters.cancelled++;
+          reject(cancellationError(signal));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        queued.started = () => signal.removeEventListener('abort', onAbort);
+      }
+      this.enqueue(queued);
+      if (this.queue.length && this.running >= this.opts.maxParallel) {
+        logger.debug?.('process pool job queued', {
+          label: job.label,
+          queued: this.queue.length,
+          running: this.running,
+        });
+      }
+      this.drain();
+    });
+  }
+
+  metrics(): ProcessPoolMetrics {
+    return {
+      name: this.opts.name,
+      maxParallel: this.opts.maxParallel,
+      order: this.opts.order,
+      running: this.running,
+      queued: this.queue.length,
+      ...this.counters,
+    };
+  }
+
+  private enqueue(job: QueuedJob): void {
+    let at = this.queue.length;
+    if (this.opts.order === 'priority') {
+      // Before the first job of lower priority; seq keeps ties FIFO.
+      const lower = this.queue.findIndex((q) => q.priority < job.priority);
+      if (lower !== -1) at = lower;
+    }
+    this.queue.splice(at, 0, job);
+    this.counters.maxQueuedSeen = Math.max(this.counters.maxQueuedSeen, this.queue.length);
+  }
+
+  private drain(): void {
+    while (this.running < this.opts.maxParallel && this.queue.length) {
+      const job = this.queue.shift()!;
+      const waitMs = Date.now() - job.enqueuedAt;
+      this.running++;
+      this.counters.started++;
+      this.counters.totalWaitMs += waitMs;
+      this.counters.maxWaitMs = Math.max(this.counters.maxWaitMs, waitMs);
+      job.started?.();
+      job.start({ waitMs, queuedAhead: job.queuedAhead });
+    }
+  }
+}
+
+function positiveIntFromEnv(name: string, fallback: number, allowZero = false): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < (allowZero ? 0 : 1)) {
+    throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} integer, got "${raw}"`);
+  }
+  return n;
+}
+
+// FFMPEG_MAX_PARALLEL (default: CPU count), FFMPEG_QUEUE_ORDER (default
+// priority) and FFMPEG_MAX_QUEUED (default 0, unbounded).
+export function resolveFfmpegPoolOptions(): ProcessPoolOptions {
+  const order = process.env.FFMPEG_QUEUE_ORDER ?? 'priority';
+  if (!QUEUE_ORDERS.includes(order as QueueOrder)) {
+    throw new Error(
+      `Unknown queue order "${order}" (expected one of ${QUEUE_ORDERS.join(', ')})`,
+    );
+  }
+  return {
+    name: 'ffmpeg',
+    maxParallel: positiveIntFromEnv('FFMPEG_MAX_PARALLEL', Math.max(1, os.cpus().length)),
+    order: order as QueueOrder,
+    maxQueued: positiveIntFromEnv('FFMPEG_MAX_QUEUED', 0, true),
+  };
+}
+
+// Shared by every ffmpeg/ffprobe child process in this worker.
+export const ffmpegPool = new ProcessPool(resolveFfmpegPoolOptions());
@@ -0,0 +1,128 @@
+import { readFileSync } from 'fs';
+
+// Suspected ingredients of the misroute, each switchable so the factor matrix
+// runner (scripts/factorMatrix.ts) can find the smallest combination that
+// still reproduces it. Read once per worker from REPRO_FACTORS (JSON object or
+// "name=on,name=off" list) or the JSON file named by REPRO_FACTORS_FILE; the
+// emulator passes both through to its workers.
+export interface ReproFactors {
+  // Emulator started with --inspect-functions (applied by the runner, which
+  // restarts the emulator per combination; code only reports it).
+  inspectFunctions: boolean;
+  // Internal calls go through the axiosist adapter; off sends them over
+  // loopback HTTP to the `api` function instead.
+  axiosist: boolean;
+  // A new axios instance for every internal call instead of one per transport.
+  axiosPerRequest: boolean;
+  // concurrency 1000 on every function; off runs them at concurrency 1.
+  highConcurrency: boolean;
+  // Spawn ffmpeg renders; off uploads the text fallback without a child process.
+  ffmpegLoad: boolean;
+  // makeApiRequestWithFFmpeg builds a fresh Express app per call (the original
+  // flow) instead of using the shared `api` app. Needs axiosist.
+  nestedExpressApps: boolean;
+  // api-internal calls attach the axiosist adapter through a per-request
+  // HttpRoutingInterceptorService (the original flow). Needs axiosist.
+  routingInterceptor: boolean;
+}
+
+export type ReproFactorName = keyof ReproFactors;
+
+export const REPRO_FACTOR_NAMES: ReproFactorName[] = [
+  'inspectFunctions',
+  'axiosist',
+  'axiosPerRequest',
+  'highConcurrency',
+  'ffmpegLoad',
+  'nestedExpressApps',
+  'routingInterceptor',
+];
+
+// What the tree does when nothing is configured.
+export const DEFAULT_REPRO_FACTORS: ReproFactors = {
+  inspectFunctions: true,
+  axiosist: true,
+  axiosPerRequest: false,
+  highConcurrency: true,
+  ffmpegLoad: true,
+  nestedExpressApps: false,
+  routingInterceptor: false,
+};
+
+// Every ingredient the README lists, as in the original parent project.
+export const ALL_ON_REPRO_FACTORS: ReproFactors = {
+  inspectFunctions: true,
+  axiosist: true,
+  axiosPerRequest: true,
+  highConcurrency: true,
+  ffmpegLoad: true,
+  nestedExpressApps: true,
+  routingInterceptor: true,
+};
+
+function parseSwitch(name: string, value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (value === 'on' || value === 'true' || value === '1') return true;
+  if (value === 'off' || value === 'false' || value === '0') return false;
+  throw new Error(`Repro factor ${name} must be on/off, got "${String(value)}"`);
+}
+
+// Accepts a partial object or "axiosist=off,ffmpegLoad=on"; unnamed factors
+// keep their defaults.
+export function parseReproFactors(input: string | Record<string, unknown>): ReproFactors {
+  let entries: [string, unknown][];
+  if (typeof input !== 'string') {
+    entries = Object.entries(input);
+  } else if (input.trim().startsWith('{')) {
+    entries = Object.entries(JSON.parse(input) as Record<string, unknown>);
+  } else {
+    entries = input
+      .split(',')
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part) => {
+        const [name, value = 'on'] = part.split('=');
+        return [name.trim(), value.trim()];
+      });
+  }
+
+  const factors = { ...DEFAULT_REPRO_FACTORS };
+  for (const [name, value] of entries) {
+    if (!REPRO_FACTOR_NAMES.includes(name as ReproFactorName)) {
+      throw new Error(
+        `Unknown repro factor "${name}" (expected one of ${REPRO_FACTOR_NAMES.join(', ')})`,
+      );
+    }
+    factors[name as ReproFactorName] = parseSwitch(name, value);
+  }
+  return factors;
+}
+
+// Factors that cannot take effect in this combination are reported off, so
+// equivalent combinations collapse to one.
+export function effectiveReproFactors(factors: ReproFactors): ReproFactors {
+  if (factors.axiosist) return factors;
+  return { ...factors, nestedExpressApps: false, routingInterceptor: false };
+}
+
+export function formatReproFactors(factors: ReproFactors): string {
+  return REPRO_FACTOR_NAMES.map((name) => `${name}=${factors[name] ? 'on' : 'off'}`).join(',');
+}
+
+let cached: ReproFactors | undefined;
+
+export function reproFactors(): ReproFactors {
+  if (!cached) {
+    const fromEnv = process.env.REPRO_FACTORS;
+    const file = process.env.REPRO_FACTORS_FILE;
+    if (fromEnv) {
+      cached = parseReproFactors(fromEnv);
+    } else if (file) {
+      cached = parseReproFactors(readFileSync(file, 'utf8'));
+    } else {
+      cached = { ...DEFAULT_REPRO_FACTORS };
+    }
+    cached = effectiveReproFactors(cached);
+  }
+  return cached;
+}
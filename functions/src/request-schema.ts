@@ -0,0 +1,142 @@
+// Minimal request-body schemas for the internal api routes. Each schema
+// checks a JSON value and returns it typed; Infer<> gives a route its body
+// type, so the handler signature and the validation cannot drift apart.
+
+export interface Schema<T> {
+  // Appends a message per problem (prefixed with `path`) and returns the value
+  // as T; the value is only trustworthy when no problem was added.
+  check(value: unknown, path: string, problems: string[]): T;
+  // Set on optional() schemas, so object() can leave the key out
+  readonly optional?: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+// Flatten the intersection so editor hovers show a plain object type.
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Thrown before a route handler runs; answered with 400.
+export class RequestValidationError extends Error {
+  constructor(
+    readonly route: string,
+    readonly problems: string[],
+  ) {
+    super(`Invalid request body for ${route}: ${problems.join('; ')}`);
+    this.name = 'RequestValidationError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value;
+}
+
+function string(opts: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Schema<string> {
+  const { minLength = 1, maxLength = 1024, pattern } = opts;
+  return {
+    check(value, path, problems) {
+      if (typeof value !== 'string') {
+        problems.push(`${path} must be a string, got ${describe(value)}`);
+      } else if (value.length < minLength || value.length > maxLength) {
+        problems.push(`${path} must be ${minLength}-${maxLength} characters`);
+      } else if (pattern && !pattern.test(value)) {
+        problems.push(`${path} must match ${pattern}`);
+      }
+      return value as string;
+    },
+  };
+}
+
+function integer(opts: { min?: number; max?: number } = {}): Schema<number> {
+  const { min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER } = opts;
+  return {
+    check(value, path, problems) {
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        problems.push(`${path} must be an integer, got ${describe(value)}`);
+      } else if (value < min || value > max) {
+        problems.push(`${path} must be ${min}-${max}`);
+      }
+      return value as number;
+    },
+  };
+}
+
+function number(opts: { min?: number; max?: number } = {}): Schema<number> {
+  const { min = -Infinity, max = Infinity } = opts;
+  return {
+    check(value, path, problems) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        problems.push(`${path} must be a number, got ${describe(value)}`);
+      } else if (value < min || value > max) {
+        problems.push(`${path} must be between ${min} and ${max}`);
+      }
+      return value as number;
+    },
+  };
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check: (value, path, problems) =>
+      value === null ? null : schema.check(value, path, problems),
+  };
+}
+
+// An absent key (or an explicit undefined) passes.
+function optional<T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return {
+    optional: true,
+    check: (value, path, problems) =>
+      value === undefined ? undefined : schema.check(value, path, problems),
+  };
+}
+
+// Unknown keys are rejected, so a misspelt field fails loudly instead of
+// silently falling back to a default.
+function object<S extends Shape>(shape: S): Schema<Simplify<ObjectOf<S>>> {
+  return {
+    check(value, path, problems) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        problems.push(`${path} must be an object, got ${describe(value)}`);
+        return value as Simplify<ObjectOf<S>>;
+      }
+      const input = value as Record<string, unknown>;
+      const out: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        if (input[key] === undefined && !schema.optional) {
+          problems.push(`${path}.${key} is required`);
+          continue;
+        }
+        const checked = schema.check(input[key], `${path}.${key}`, problems);
+        if (checked !== undefined) out[key] = checked;
+      }
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) problems.push(`${path}.${key} is not allowed`);
+      }
+      return out as Simplify<ObjectOf<S>>;
+    },
+  };
+}
+
+export const s = { string, integer, number, nullable, optional, object };
+
+// Check a request body against a route's schema.
+export function parseBody<T>(schema: Schema<T>, body: unknown, route: string): T {
+  const problems: string[] = [];
+  const parsed = schema.check(body, 'body', problems);
+  if (problems.length) throw new RequestValidationError(route, problems);
+  return parsed;
+}
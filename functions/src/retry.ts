@@ -0,0 +1,123 @@
+import { abortable, isCancelled, throwIfCancelled } from './cancellation';
+import { logger } from './correlation';
+import { seededRandom } from './seeded-random';
+import type { SeededRandom } from './seeded-random';
+
+// One policy for every retried step (token writes, renders, uploads):
+// exponential backoff with full jitter, capped at maxDelayMs.
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  factor: 2,
+};
+
+// RETRY_MAX_ATTEMPTS / RETRY_BASE_DELAY_MS / RETRY_MAX_DELAY_MS override the defaults.
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  const fromEnv = (name: string): number | undefined => {
+    const n = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(n) && n >= 0 ? n : undefined;
+  };
+  return {
+    maxAttempts: Math.max(
+      1,
+      overrides.maxAttempts ?? fromEnv('RETRY_MAX_ATTEMPTS') ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    ),
+    baseDelayMs:
+      overrides.baseDelayMs ?? fromEnv('RETRY_BASE_DELAY_MS') ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs:
+      overrides.maxDelayMs ?? fromEnv('RETRY_MAX_DELAY_MS') ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    factor: overrides.factor ?? DEFAULT_RETRY_POLICY.factor,
+  };
+}
+
+// Jitter for callers that bring no stream of their own, drawn from TEST_SEED
+// or the process seed so seeded runs keep their retry timing.
+const processJitter = seededRandom(null, 'retry');
+
+// Delay before attempt `attempt + 1`: uniform in [0, base * factor^(attempt-1)].
+export function backoffDelayMs(
+  policy: RetryPolicy,
+  attempt: number,
+  rng: SeededRandom = processJitter,
+): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(policy.factor, attempt - 1),
+  );
+  return Math.round(rng.next() * ceiling);
+}
+
+// Thrown once every attempt has failed; `cause` is the last error.
+export class RetryExhaustedError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly attempts: number,
+    readonly cause: unknown,
+  ) {
+    super(
+      `${operation} failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function withRetry<T>(
+  operation: string,
+  fn: (attempt: number) => Promise<T>,
+  opts: {
+    policy?: Partial<RetryPolicy>;
+    // Errors it returns false for are rethrown at once, without retrying.
+    retryable?: (error: unknown) => boolean;
+    context?: Record<string, unknown>;
+    // Aborting stops further attempts and backoff waits with CancelledError.
+    signal?: AbortSignal;
+    // Caller's seeded stream (e.g. per upload and clip task); the jitter comes
+    // from a child keyed by the operation. Without one, the stream is keyed by
+    // the operation and context under TEST_SEED or the process seed.
+    rng?: SeededRandom;
+  } = {},
+): Promise<T> {
+  const policy = resolveRetryPolicy(opts.policy);
+  const jitter = opts.rng
+    ? opts.rng.fork('retry', operation)
+    : seededRandom(
+        null,
+        'retry',
+        operation,
+        ...Object.entries(opts.context ?? {}).map(([k, v]) => `${k}=${String(v)}`),
+      );
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(opts.signal);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      throwIfCancelled(opts.signal);
+      if (isCancelled(error)) throw error;
+      if (opts.retryable && !opts.retryable(error)) throw error;
+      if (attempt >= policy.maxAttempts) {
+        throw new RetryExhaustedError(operation, attempt, error);
+      }
+      const delayMs = backoffDelayMs(policy, attempt, jitter);
+      logger.warn(`${operation} failed, retrying`, {
+        ...opts.context,
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await abortable(sleep(delayMs), opts.signal);
+    }
+  }
+}
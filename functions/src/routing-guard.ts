@@ -0,0 +1,400 @@
+import admin from 'firebase-admin';
+import { MISROUTED_EVENTS_COLLECTION, ROUTING_ANOMALIES_COLLECTION } from './collections';
+import { logger } from './correlation';
+import type { CloudEvent, CloudFunction } from 'firebase-functions/v2';
+import { getDb } from './services';
+import { recordSpan } from './timeline';
+
+// Initialize Admin SDK only once.
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+export { MISROUTED_EVENTS_COLLECTION, ROUTING_ANOMALIES_COLLECTION };
+
+export type EventProvider = 'firestore' | 'storage';
+
+// What to do with an event that belongs to the other provider:
+//   passthrough  hand it to this trigger anyway (the SDK throws; keeps the bug visible)
+//   redispatch   deliver it to the registered trigger for its event type
+//   dead-letter  store it in misroutedEvents and return
+export type MisroutePolicy = 'passthrough' | 'redispatch' | 'dead-letter';
+
+export const MISROUTE_POLICIES: MisroutePolicy[] = [
+  'passthrough',
+  'redispatch',
+  'dead-letter',
+];
+
+export const DEFAULT_MISROUTE_POLICY: MisroutePolicy = 'passthrough';
+
+// What happened to a misrouted event; recorded on its anomaly.
+export type MisrouteResolution = MisroutePolicy | 'dead-letter-fallback';
+
+// Explicit policy > MISROUTE_POLICY env > default.
+export function resolveMisroutePolicy(explicit?: string): MisroutePolicy {
+  const policy = explicit ?? process.env.MISROUTE_POLICY ?? DEFAULT_MISROUTE_POLICY;
+  if (!MISROUTE_POLICIES.includes(policy as MisroutePolicy)) {
+    throw new Error(
+      `Unknown misroute policy "${policy}" (expected one of ${MISROUTE_POLICIES.join(', ')})`,
+    );
+  }
+  return policy as MisroutePolicy;
+}
+
+// Resolved on the first misrouted event, then kept for the worker. A bad
+// MISROUTE_POLICY is logged and the default used, so it cannot take down the
+// trigger that caught the misroute.
+let misroutePolicy: MisroutePolicy | undefined;
+
+function currentMisroutePolicy(): MisroutePolicy {
+  if (!misroutePolicy) {
+    try {
+      misroutePolicy = resolveMisroutePolicy();
+    } catch (e) {
+      logger.error('invalid MISROUTE_POLICY, using the default', {
+        e: (e as Error).message,
+        policy: DEFAULT_MISROUTE_POLICY,
+      });
+      misroutePolicy = DEFAULT_MISROUTE_POLICY;
+    }
+  }
+  return misroutePolicy;
+}
+
+// Pin the policy for this worker; without an argument the next misroute
+// reads MISROUTE_POLICY again.
+export function setMisroutePolicy(policy?: string): void {
+  misroutePolicy = policy === undefined ? undefined : resolveMisroutePolicy(policy);
+}
+
+// What a correctly routed raw CloudEvent looks like for each provider.
+// The exact `type` comes from the registered endpoint, so only the
+// provider-wide prefix is listed here.
+const PROVIDER_ENVELOPES: Record<
+  EventProvider,
+  { typePrefix: string; sourcePrefix: string; contentTypes: string[] }
+> = {
+  firestore: {
+    typePrefix: 'google.cloud.firestore.document.v1.',
+    sourcePrefix: '//firestore.googleapis.com/',
+    contentTypes: ['application/protobuf', 'application/json'],
+  },
+  storage: {
+    typePrefix: 'google.cloud.storage.object.v1.',
+    sourcePrefix: '//storage.googleapis.com/',
+    contentTypes: ['application/json'],
+  },
+};
+
+export interface RoutingMismatch {
+  field: 'type' | 'source' | 'datacontenttype';
+  expected: string;
+  actual: string | null;
+}
+
+// Compare the raw envelope against what the registered provider should deliver.
+export function findRoutingMismatches(
+  raw: CloudEvent<unknown>,
+  provider: EventProvider,
+  expectedType?: string,
+): RoutingMismatch[] {
+  const envelope = PROVIDER_ENVELOPES[provider];
+  const mismatches: RoutingMismatch[] = [];
+
+  const typeOk = expectedType
+    ? raw.type === expectedType
+    : typeof raw.type === 'string' && raw.type.startsWith(envelope.typePrefix);
+  if (!typeOk) {
+    mismatches.push({
+      field: 'type',
+      expected: expectedType ?? `${envelope.typePrefix}*`,
+      actual: raw.type ?? null,
+    });
+  }
+
+  if (
+    typeof raw.source !== 'string' ||
+    !raw.source.startsWith(envelope.sourcePrefix)
+  ) {
+    mismatches.push({
+      field: 'source',
+      expected: `${envelope.sourcePrefix}*`,
+      actual: raw.source ?? null,
+    });
+  }
+
+  const contentType = (raw as { datacontenttype?: string }).datacontenttype;
+  // The Firestore SDK also accepts a Buffer payload without a content type.
+  const bufferPayload = provider === 'firestore' && Buffer.isBuffer(raw.data);
+  if (
+    !bufferPayload &&
+    !envelope.contentTypes.some((ct) => contentType?.includes(ct))
+  ) {
+    mismatches.push({
+      field: 'datacontenttype',
+      expected: envelope.contentTypes.join(' | '),
+      actual: contentType ?? null,
+    });
+  }
+
+  return mismatches;
+}
+
+// Which provider the envelope really came from: type first, then source, then
+// a protobuf content type (only Firestore sends those).
+export function actualProvider(raw: CloudEvent<unknown>): EventProvider | null {
+  for (const [provider, envelope] of Object.entries(PROVIDER_ENVELOPES)) {
+    if (typeof raw.type === 'string' && raw.type.startsWith(envelope.typePrefix)) {
+      return provider as EventProvider;
+    }
+  }
+  for (const [provider, envelope] of Object.entries(PROVIDER_ENVELOPES)) {
+    if (typeof raw.source === 'string' && raw.source.startsWith(envelope.sourcePrefix)) {
+      return provider as EventProvider;
+    }
+  }
+  const contentType = (raw as { datacontenttype?: string }).datacontenttype;
+  return contentType?.includes('application/protobuf') ? 'firestore' : null;
+}
+
+// Best-effort lookup of the ITERATION stamped by createDoc, from either payload shape.
+function iterationFromEvent(raw: CloudEvent<unknown>): number | null {
+  const data = raw.data as Record<string, any> | undefined;
+  if (!data || Buffer.isBuffer(data)) return null;
+
+  const candidates = [
+    data.metadata?.iteration, // storage object custom metadata
+    data.value?.fields?.iteration?.integerValue, // firestore JSON payload
+    data.oldValue?.fields?.iteration?.integerValue,
+  ];
+  for (const candidate of candidates) {
+    const parsed = Number(candidate);
+    if (candidate !== undefined && Number.isFinite(parsed)) return parsed;
+  }
+  return null;
+}
+
+// Run ID stamped by createDoc, carried the same way as the iteration.
+function runIdFromEvent(raw: CloudEvent<unknown>): string | null {
+  const data = raw.data as Record<string, any> | undefined;
+  if (!data || Buffer.isBuffer(data)) return null;
+  return (
+    data.metadata?.runId ??
+    data.value?.fields?.runId?.stringValue ??
+    data.oldValue?.fields?.runId?.stringValue ??
+    null
+  );
+}
+
+// Correlation ID of the chain that produced the event: object custom metadata
+// for storage, the field onUploadUpdate stamps on the upload doc for firestore.
+function correlationFromEvent(raw: CloudEvent<unknown>): string | null {
+  const data = raw.data as Record<string, any> | undefined;
+  if (!data || Buffer.isBuffer(data)) return null;
+  return (
+    data.metadata?.correlationId ??
+    data.value?.fields?.correlationId?.stringValue ??
+    null
+  );
+}
+
+// Firestore cannot store undefined values and protobuf payloads arrive as Buffers.
+function serializeEnvelope(raw: CloudEvent<unknown>): Record<string, unknown> {
+  return JSON.parse(
+    JSON.stringify(raw, (_key, value) => {
+      if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+        return {
+          encoding: 'base64',
+          bytes: Buffer.from(value.data).toString('base64'),
+        };
+      }
+      return value;
+    }),
+  );
+}
+
+async function recordRoutingAnomaly(
+  raw: CloudEvent<unknown>,
+  functionName: string,
+  provider: EventProvider,
+  mismatches: RoutingMismatch[],
+  resolution: MisrouteResolution,
+  redispatchedTo: string | null,
+): Promise<void> {
+  const iteration = iterationFromEvent(raw);
+  const runId = runIdFromEvent(raw);
+  const correlationId = correlationFromEvent(raw);
+
+  console.error(
+    `🚨 CRITICAL BUG DETECTED: ${functionName} (${provider}) received a misrouted event`,
+    { id: raw.id, type: raw.type, source: raw.source, iteration, runId, correlationId },
+  );
+  logger.error('routing anomaly', {
+    functionName,
+    provider,
+    eventId: raw.id,
+    iteration,
+    runId,
+    correlationId,
+    mismatches,
+    resolution,
+  });
+
+  try {
+    await getDb()
+      .collection(ROUTING_ANOMALIES_COLLECTION)
+      .add({
+        functionName,
+        expectedProvider: provider,
+        mismatches,
+        iteration,
+        runId,
+        correlationId,
+        eventId: raw.id ?? null,
+        eventType: raw.type ?? null,
+        eventSource: raw.source ?? null,
+        envelope: serializeEnvelope(raw),
+        resolution,
+        redispatchedTo,
+        pid: process.pid,
+        detectedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+  } catch (e) {
+    logger.error('Failed to record routing anomaly', {
+      functionName,
+      e: (e as Error).message,
+    });
+  }
+}
+
+// Keyed by event id so a redelivered event is stored once.
+async function deadLetter(
+  raw: CloudEvent<unknown>,
+  functionName: string,
+  provider: EventProvider,
+  reason: string,
+): Promise<void> {
+  try {
+    await getDb()
+      .collection(MISROUTED_EVENTS_COLLECTION)
+      .doc(raw.id ?? `${functionName}-${Date.now()}`)
+      .set({
+        functionName,
+        expectedProvider: provider,
+        actualProvider: actualProvider(raw),
+        reason,
+        iteration: iterationFromEvent(raw),
+        runId: runIdFromEvent(raw),
+        correlationId: correlationFromEvent(raw),
+        eventType: raw.type ?? null,
+        eventSource: raw.source ?? null,
+        envelope: serializeEnvelope(raw),
+        receivedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+  } catch (e) {
+    logger.error('Failed to dead-letter misrouted event', {
+      functionName,
+      eventId: raw.id,
+      e: (e as Error).message,
+    });
+  }
+}
+
+interface RegisteredTrigger {
+  functionName: string;
+  provider: EventProvider;
+  eventType: () => string | undefined;
+  handle: (raw: CloudEvent<unknown>) => Promise<unknown>;
+}
+
+// Every guarded trigger loaded in this worker, so a misrouted event can be
+// handed to the one registered for its type.
+const registeredTriggers: RegisteredTrigger[] = [];
+
+function triggerForEvent(raw: CloudEvent<unknown>): RegisteredTrigger | undefined {
+  return registeredTriggers.find((t) => t.eventType() === raw.type);
+}
+
+// Wrap a registered trigger so the raw CloudEvent is checked before the SDK
+// decodes it (createBeforeSnapshot throws on storage payloads). Mismatches are
+// recorded. An event from the other provider is then handled per the misroute
+// policy; the default hands it to the trigger anyway so the emulator bug stays
+// observable exactly as before.
+export function withRoutingCheck<T extends CloudEvent<unknown>>(
+  functionName: string,
+  provider: EventProvider,
+  fn: CloudFunction<T>,
+): CloudFunction<T> {
+  const wrapped = (async (raw: CloudEvent<unknown>) => {
+    const expectedType = fn.__endpoint?.eventTrigger?.eventType;
+    const mismatches = findRoutingMismatches(raw, provider, expectedType);
+    const source = actualProvider(raw);
+    const crossProvider = source !== null && source !== provider;
+    // Timeline span per invocation. The chain comes from the event itself;
+    // for upload doc updates that is the chain that last stamped the doc.
+    return recordSpan(
+      {
+        kind: 'trigger',
+        name: functionName,
+        iteration: iterationFromEvent(raw),
+        correlationId: correlationFromEvent(raw),
+        args: {
+          provider,
+          eventId: raw.id ?? null,
+          eventType: raw.type ?? null,
+          misrouted: mismatches.length > 0,
+        },
+      },
+      async (span) => {
+        if (!mismatches.length) return fn(raw);
+        if (!crossProvider) {
+          await recordRoutingAnomaly(raw, functionName, provider, mismatches, 'passthrough', null);
+          return fn(raw);
+        }
+
+        const policy = currentMisroutePolicy();
+        const target = policy === 'redispatch' ? triggerForEvent(raw) : undefined;
+        const resolution: MisrouteResolution =
+          policy === 'redispatch' && !target ? 'dead-letter-fallback' : policy;
+        span.args.resolution = resolution;
+        await recordRoutingAnomaly(
+          raw,
+          functionName,
+          provider,
+          mismatches,
+          resolution,
+          target?.functionName ?? null,
+        );
+
+        if (policy === 'passthrough') return fn(raw);
+        if (target) {
+          console.warn(
+            `↪️ Redispatching misrouted ${raw.type} from ${functionName} to ${target.functionName}`,
+          );
+          return target.handle(raw);
+        }
+        await deadLetter(
+          raw,
+          functionName,
+          provider,
+          policy === 'dead-letter' ? 'policy' : `no registered trigger for ${raw.type}`,
+        );
+        return undefined;
+      },
+    );
+  }) as CloudFunction<T>;
+
+  wrapped.run = fn.run;
+  // Storage exposes __endpoint/__trigger as lazy getters (default bucket lookup).
+  Object.defineProperty(wrapped, '__endpoint', { get: () => fn.__endpoint });
+  Object.defineProperty(wrapped, '__trigger', { get: () => fn.__trigger });
+
+  registeredTriggers.push({
+    functionName,
+    provider,
+    eventType: () => fn.__endpoint?.eventTrigger?.eventType,
+    handle: (raw) => Promise.resolve(wrapped(raw as T)),
+  });
+  return wrapped;
+}
@@ -0,0 +1,201 @@
+import admin from 'firebase-admin';
+import {
+  CLIP_JOBS_SUBCOLLECTION,
+  CLIPS_SUBCOLLECTION,
+  FAILED_WORK_COLLECTION,
+  MISROUTED_EVENTS_COLLECTION,
+  PATH_ANOMALIES_COLLECTION,
+  PROCESSED_EVENTS_COLLECTION,
+  ROUTING_ANOMALIES_COLLECTION,
+  UPLOAD_TOKENS_COLLECTION,
+  UPLOADS_COLLECTION,
+} from './collections';
+import { logger } from './correlation';
+import { runUploadPrefix } from './run-scope';
+import { getBucket, getDb } from './services';
+import { STITCHED_PREFIX, UPLOADS_PREFIX, uploadPrefix } from './storage-paths';
+
+// Top-level collections whose docs carry a runId field.
+export const RUN_SCOPED_COLLECTIONS = [
+  UPLOADS_COLLECTION,
+  UPLOAD_TOKENS_COLLECTION,
+  PROCESSED_EVENTS_COLLECTION,
+  ROUTING_ANOMALIES_COLLECTION,
+  MISROUTED_EVENTS_COLLECTION,
+  PATH_ANOMALIES_COLLECTION,
+  FAILED_WORK_COLLECTION,
+] as const;
+
+export type RunScopedCollection = (typeof RUN_SCOPED_COLLECTIONS)[number];
+
+export interface RunDoc {
+  path: string;
+  data: admin.firestore.DocumentData;
+}
+
+export interface RunObject {
+  name: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface RunData {
+  runId: string;
+  docs: Record<RunScopedCollection, RunDoc[]>;
+  // Clip job and clip definition docs under the run's uploads
+  jobs: RunDoc[];
+  clips: RunDoc[];
+  objects: RunObject[];
+}
+
+function toRunDoc(doc: admin.firestore.DocumentSnapshot): RunDoc {
+  return { path: doc.ref.path, data: doc.data() ?? {} };
+}
+
+export async function runDocs(
+  collection: RunScopedCollection,
+  runId: string,
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const snap = await getDb().collection(collection).where('runId', '==', runId).get();
+  return snap.docs;
+}
+
+// Objects live under the run's upload IDs, which start with the run ID. Uploads
+// stamped with the run but named otherwise are listed by their own prefix.
+export async function runObjects(runId: string, uploadIds: string[] = []): Promise<RunObject[]> {
+  const bucket = getBucket();
+  const prefixes = new Set([
+    `${UPLOADS_PREFIX}${runUploadPrefix(runId)}`,
+    `${STITCHED_PREFIX}${runUploadPrefix(runId)}`,
+  ]);
+  for (const uploadId of uploadIds) {
+    prefixes.add(uploadPrefix(uploadId));
+    prefixes.add(`${STITCHED_PREFIX}${uploadId}/`);
+  }
+
+  const byName = new Map<string, RunObject>();
+  for (const prefix of prefixes) {
+    const [files] = await bucket.getFiles({ prefix });
+    for (const file of files) {
+      if (byName.has(file.name)) continue;
+      const [metadata] = await file.getMetadata();
+      byName.set(file.name, { name: file.name, metadata: metadata.metadata ?? {} });
+    }
+  }
+  return [...byName.values()];
+}
+
+// Everything one run created: its docs in each run-scoped collection, the
+// clip jobs and clip definitions under its uploads and its Storage objects.
+export async function findRunData(runId: string): Promise<RunData> {
+  const entries = await Promise.all(
+    RUN_SCOPED_COLLECTIONS.map(
+      async (collection) => [collection, await runDocs(collection, runId)] as const,
+    ),
+  );
+  const uploads = entries.find(([collection]) => collection === UPLOADS_COLLECTION)?.[1] ?? [];
+  const subcollection = async (name: string) => {
+    const snaps = await Promise.all(uploads.map((upload) => upload.ref.collection(name).get()));
+    return snaps.flatMap((snap) => snap.docs.map(toRunDoc));
+  };
+
+  const docs = {} as Record<RunScopedCollection, RunDoc[]>;
+  for (const [collection, snaps] of entries) docs[collection] = snaps.map(toRunDoc);
+  return {
+    runId,
+    docs,
+    jobs: await subcollection(CLIP_JOBS_SUBCOLLECTION),
+    clips: await subcollection(CLIPS_SUBCOLLECTION),
+    objects: await runObjects(
+      runId,
+      uploads.map((upload) => upload.id),
+    ),
+  };
+}
+
+export interface TeardownReport {
+  runId: string;
+  dryRun: boolean;
+  found: { docs: number; jobs: number; clips: number; objects: number };
+  deleted: { docs: number; jobs: number; clips: number; objects: number };
+  errors: { id: string; error: string }[];
+}
+
+export class RunInFlightError extends Error {
+  constructor(
+    readonly runId: string,
+    readonly uploadIds: string[],
+  ) {
+    super(`run ${runId} is still processing uploads ${uploadIds.join(', ')}`);
+    this.name = 'RunInFlightError';
+  }
+}
+
+// Delete one run's objects, clip jobs, clip definitions and docs, leaving every other run alone.
+// A run whose uploads are still processing would keep writing, so it is
+// refused unless `force` is set.
+export async function teardownRun(
+  runId: string,
+  opts: { dryRun?: boolean; force?: boolean } = {},
+): Promise<TeardownReport> {
+  const dryRun = opts.dryRun ?? false;
+  const data = await findRunData(runId);
+  const docs = RUN_SCOPED_COLLECTIONS.flatMap((collection) => data.docs[collection]);
+
+  const processing = data.docs.uploads
+    .filter((upload) => upload.data.status === 'processing')
+    .map((upload) => upload.path.slice(`${UPLOADS_COLLECTION}/`.length));
+  if (processing.length && !opts.force && !dryRun) {
+    throw new RunInFlightError(runId, processing);
+  }
+
+  const report: TeardownReport = {
+    runId,
+    dryRun,
+    found: {
+      docs: docs.length,
+      jobs: data.jobs.length,
+      clips: data.clips.length,
+      objects: data.objects.length,
+    },
+    deleted: { docs: 0, jobs: 0, clips: 0, objects: 0 },
+    errors: [],
+  };
+
+  if (!dryRun) {
+    const db = getDb();
+    const bucket = getBucket();
+    const attempt = async (id: string, fn: () => Promise<unknown>) => {
+      try {
+        await fn();
+        return true;
+      } catch (e) {
+        report.errors.push({ id, error: (e as Error).message });
+        return false;
+      }
+    };
+    // Objects first, so nothing is left whose upload doc has gone
+    for (const object of data.objects) {
+      if (await attempt(object.name, () => bucket.file(object.name).delete({ ignoreNotFound: true }))) {
+        report.deleted.objects++;
+      }
+    }
+    for (const job of data.jobs) {
+      if (await attempt(job.path, () => db.doc(job.path).delete())) report.deleted.jobs++;
+    }
+    for (const clip of data.clips) {
+      if (await attempt(clip.path, () => db.doc(clip.path).delete())) report.deleted.clips++;
+    }
+    for (const doc of docs) {
+      if (await attempt(doc.path, () => db.doc(doc.path).delete())) report.deleted.docs++;
+    }
+  }
+
+  logger.info('run teardown', {
+    runId,
+    dryRun,
+    found: report.found,
+    deleted: report.deleted,
+    errors: report.errors.length,
+  });
+  return report;
+}
@@ -0,0 +1,61 @@
+import { createHash, randomUUID } from 'crypto';
+
+// Every upload doc, token, object and anomaly a test iteration creates is
+// stamped with its run ID, so one run can be listed or torn down without
+// touching the rest of the emulator (see src/run-data.ts).
+
+// Letters, digits and '-' only: '__' separates the run from the rest of an
+// upload ID, and run IDs end up in object paths.
+const RUN_ID_PATTERN = /^[A-Za-z0-9-]{1,80}$/;
+const RUN_SEPARATOR = '__';
+
+export function isValidRunId(runId: string): boolean {
+  return RUN_ID_PATTERN.test(runId);
+}
+
+// Seeds are free-form; keep them readable and add a hash only when
+// sanitising changed them, so distinct seeds never share a run ID.
+function seedSlug(seed: string): string {
+  const slug = seed.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  if (slug === seed) return slug;
+  const hash = createHash('sha1').update(seed).digest('hex').slice(0, 8);
+  return slug ? `${slug}-${hash}` : hash;
+}
+
+// Explicit > RUN_ID env > derived. A seeded iteration always maps to the same
+// run (seed-{seed}-iter-{n}), so a replay lands on the data it replaces;
+// otherwise a fresh ID is generated.
+export function resolveRunId(
+  opts: { explicit?: string; iteration?: number; seed?: string } = {},
+): string {
+  const explicit = opts.explicit ?? (process.env.RUN_ID || undefined);
+  if (explicit !== undefined) {
+    if (!isValidRunId(explicit)) {
+      throw new Error(`Invalid run ID "${explicit}" (letters, digits and '-', at most 80)`);
+    }
+    return explicit;
+  }
+
+  if (opts.seed !== undefined) {
+    return `seed-${seedSlug(opts.seed)}-iter-${opts.iteration ?? 0}`;
+  }
+  const iteration = opts.iteration !== undefined ? `-iter-${opts.iteration}` : '';
+  return `run-${Date.now().toString(36)}-${randomUUID()}${iteration}`;
+}
+
+// Upload IDs carry their run, so object paths and token IDs do too:
+// {runId}__{suffix}.
+export function runUploadId(runId: string, suffix: string): string {
+  return `${runId}${RUN_SEPARATOR}${suffix}`;
+}
+
+export function runIdFromUploadId(uploadId: string): string | null {
+  const at = uploadId.indexOf(RUN_SEPARATOR);
+  const runId = at > 0 ? uploadId.slice(0, at) : '';
+  return isValidRunId(runId) ? runId : null;
+}
+
+// Prefix shared by every upload ID of the run (and so by its object paths).
+export function runUploadPrefix(runId: string): string {
+  return `${runId}${RUN_SEPARATOR}`;
+}
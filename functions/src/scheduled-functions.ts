@@ -0,0 +1,49 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { sweepExpiredUploadTokens } from './upload-tokens';
+import { sweepStalledUploads } from './upload-completion';
+import { collectGarbage } from './storage-gc';
+
+// Scheduler options like parent project
+const scheduleOptions = {
+  memory: '256MiB' as const,
+  maxInstances: 1,
+};
+
+// Expired, never-consumed upload tokens are marked isExpired (or deleted when
+// TOKEN_SWEEP_MODE=delete); the storage objects they pointed at are logged.
+export const sweepExpiredTokens = onSchedule(
+  {
+    schedule: 'every 60 minutes',
+    ...scheduleOptions,
+  },
+  async () => {
+    await sweepExpiredUploadTokens({
+      mode: process.env.TOKEN_SWEEP_MODE === 'delete' ? 'delete' : 'mark',
+    });
+  },
+);
+
+// Uploads still processing with no finalize inside UPLOAD_STALL_WINDOW_MS
+// (default 10 minutes) are marked status: 'stalled', processing: false.
+export const markStalledUploads = onSchedule(
+  {
+    schedule: 'every 5 minutes',
+    ...scheduleOptions,
+  },
+  async () => {
+    await sweepStalledUploads();
+  },
+);
+
+// Orphaned objects under uploads/, leftover token docs and uploads idle past
+// UPLOAD_RETENTION_MS (default 24 hours) are deleted; GC_DRY_RUN=true only
+// logs the reconciliation report.
+export const collectStorageGarbage = onSchedule(
+  {
+    schedule: 'every 60 minutes',
+    ...scheduleOptions,
+  },
+  async () => {
+    await collectGarbage({ dryRun: process.env.GC_DRY_RUN === 'true' });
+  },
+);
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+
+// Seed used when neither the caller nor TEST_SEED supplies one. Picked once per
+// process so unseeded runs keep their old (non-reproducible) behaviour.
+const processSeed = crypto.randomBytes(8).toString('hex');
+
+export type Seed = string | number;
+
+// Explicit seed (e.g. stamped on the upload doc) wins over TEST_SEED.
+export function resolveSeed(seed?: Seed | null): string {
+  if (seed !== undefined && seed !== null && seed !== '') return String(seed);
+  return process.env.TEST_SEED || processSeed;
+}
+
+// Seed for one processing attempt of an upload. Without an explicit seed the
+// process seed is fixed for the worker's lifetime, so a regenerate in the same
+// warm worker would reissue the previous attempt's file names and token IDs
+// (and overwrite its tokens). The first attempt keeps the plain seed, so
+// recorded seeds still replay.
+export function attemptSeed(seed: Seed | null | undefined, attempt: number): string | undefined {
+  if (attempt <= 1) return seed == null || seed === '' ? undefined : String(seed);
+  return `${resolveSeed(seed)}/attempt-${attempt}`;
+}
+
+// Small deterministic PRNG (mulberry32). Each stream is keyed by the run seed
+// plus whatever identifies the unit of work (upload, clip, file index...), so
+// concurrent work interleaving differently never shifts another stream.
+export class SeededRandom {
+  private state: number;
+
+  constructor(
+    readonly seed: string,
+    readonly keys: ReadonlyArray<string | number>,
+  ) {
+    const digest = crypto
+      .createHash('sha256')
+      .update([seed, ...keys].join('\u0000'))
+      .digest();
+    this.state = digest.readUInt32LE(0);
+  }
+
+  // Float in [0, 1), drop-in for Math.random().
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [min, max).
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min));
+  }
+
+  pick<T>(items: ReadonlyArray<T>): T {
+    return items[this.int(0, items.length)];
+  }
+
+  // Replacement for crypto.randomBytes(n).toString('hex').
+  hex(bytes: number): string {
+    let out = '';
+    for (let i = 0; i < bytes; i++) {
+      out += this.int(0, 256).toString(16).padStart(2, '0');
+    }
+    return out;
+  }
+
+  // Replacement for Math.random().toString(36).slice(2, 2 + length).
+  base36(length: number): string {
+    let out = '';
+    for (let i = 0; i < length; i++) out += this.int(0, 36).toString(36);
+    return out;
+  }
+
+  // Derive an independent child stream, e.g. per clip under an upload stream.
+  fork(...keys: Array<string | number>): SeededRandom {
+    return new SeededRandom(this.seed, [...this.keys, ...keys]);
+  }
+}
+
+export function seededRandom(
+  seed: Seed | null | undefined,
+  ...keys: Array<string | number>
+): SeededRandom {
+  return new SeededRandom(resolveSeed(seed), keys);
+}
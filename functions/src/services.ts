@@ -0,0 +1,33 @@
+import admin from 'firebase-admin';
+
+// Initialize Admin SDK only once.
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+export type Firestore = admin.firestore.Firestore;
+export type Bucket = ReturnType<admin.storage.Storage['bucket']>;
+
+interface ServiceOverrides {
+  firestore?: Firestore;
+  bucket?: Bucket;
+}
+
+// Swapped out by the offline harness (src/harness) for in-memory stand-ins.
+let overrides: ServiceOverrides = {};
+
+export function getDb(): Firestore {
+  return overrides.firestore ?? admin.firestore();
+}
+
+export function getBucket(): Bucket {
+  return overrides.bucket ?? admin.storage().bucket();
+}
+
+export function overrideServices(next: ServiceOverrides): void {
+  overrides = { ...next };
+}
+
+export function isServiceOverridden(): boolean {
+  return overrides.firestore !== undefined || overrides.bucket !== undefined;
+}
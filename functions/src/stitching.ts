@@ -0,0 +1,276 @@
+import admin from 'firebase-admin';
+import { correlationMetadata, logger } from './correlation';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getBucket, getDb } from './services';
+import { seededRandom } from './seeded-random';
+import { issueUploadToken, uploadTokenId } from './upload-tokens';
+import { formatStitchedPath } from './storage-paths';
+import { concatPreviews, presetForPath, probeMedia } from './ffmpeg-render';
+import type { MediaProbe } from './ffmpeg-render';
+import type { ClipJobStatus } from './clip-jobs';
+
+// How long the stitch stage waits for onUploadFileFinalize to verify every
+// clip preview before giving up.
+export const STITCH_VERIFY_TIMEOUT_MS = 60000;
+const STITCH_POLL_MS = 250;
+
+export type StitchStatus =
+  | 'waiting'
+  | 'stitching'
+  | 'stitched'
+  | 'skipped'
+  | 'failed';
+
+// Stored as `stitch` on the upload doc; reset each time clip jobs are queued.
+export interface StitchRecord {
+  status: StitchStatus;
+  musicVideoId: string;
+  inputs: string[];
+  path?: string;
+  uploadToken?: string;
+  probe?: MediaProbe | null;
+  reason?: string;
+}
+
+export interface StitchOutcome {
+  stitched: boolean;
+  status: StitchStatus | 'clips-pending' | 'already-claimed';
+  path?: string;
+}
+
+function uploadRef(uploadId: string) {
+  return getDb().collection('uploads').doc(uploadId);
+}
+
+async function updateStitch(
+  uploadId: string,
+  patch: Partial<StitchRecord> & Record<string, unknown>,
+): Promise<void> {
+  await uploadRef(uploadId).set(
+    {
+      stitch: {
+        ...patch,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    },
+    { merge: true },
+  );
+}
+
+type Claim =
+  | { claimed: true; inputs: string[] }
+  | { claimed: false; outcome: StitchOutcome };
+
+// Exactly one caller claims the stitch, and only once every clip job is
+// terminal. Failed clips or text-fallback previews settle it without work.
+async function claimStitch(
+  uploadId: string,
+  musicVideoId: string,
+): Promise<Claim> {
+  return getDb().runTransaction(async (tx): Promise<Claim> => {
+    const upload = await tx.get(uploadRef(uploadId));
+    const jobs = await tx.get(uploadRef(uploadId).collection('jobs'));
+
+    if (upload.get('stitch')) {
+      return {
+        claimed: false,
+        outcome: { stitched: false, status: 'already-claimed' },
+      };
+    }
+    const statuses = jobs.docs.map((d) => d.get('status') as ClipJobStatus);
+    if (!jobs.size || statuses.some((s) => s !== 'succeeded' && s !== 'failed')) {
+      return {
+        claimed: false,
+        outcome: { stitched: false, status: 'clips-pending' },
+      };
+    }
+
+    const ordered = [...jobs.docs].sort(
+      (a, b) => (a.get('clipIndex') ?? 0) - (b.get('clipIndex') ?? 0),
+    );
+    const inputs = ordered.flatMap(
+      (d) => (d.get('previewPaths') as string[] | undefined) ?? [],
+    );
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const settle = (status: StitchStatus, reason: string): Claim => {
+      const stitch: StitchRecord = { status, musicVideoId, inputs, reason };
+      tx.set(
+        uploadRef(uploadId),
+        { stitch: { ...stitch, updatedAt: now } },
+        { merge: true },
+      );
+      return { claimed: false, outcome: { stitched: false, status } };
+    };
+
+    if (upload.get('status') === 'cancelled') {
+      return settle('skipped', 'upload-cancelled');
+    }
+    const failed = ordered.filter((d) => d.get('status') === 'failed');
+    if (failed.length) {
+      return settle('failed', `clips failed: ${failed.map((d) => d.id).join(', ')}`);
+    }
+    if (!inputs.length || inputs.some((p) => !presetForPath(p))) {
+      return settle('skipped', 'previews-not-rendered');
+    }
+    if (new Set(inputs.map((p) => presetForPath(p)?.extension)).size > 1) {
+      return settle('skipped', 'mixed-containers');
+    }
+
+    const stitch: StitchRecord = { status: 'waiting', musicVideoId, inputs };
+    tx.set(
+      uploadRef(uploadId),
+      { stitch: { ...stitch, claimedAt: now, updatedAt: now } },
+      { merge: true },
+    );
+    return { claimed: true, inputs };
+  });
+}
+
+// Resolves with the inputs still unverified when the timeout hit.
+async function waitForVerified(
+  uploadId: string,
+  inputs: string[],
+  timeoutMs: number,
+): Promise<string[]> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const verified = new Set<string>(
+      (await uploadRef(uploadId).get()).get('verifiedUploads') ?? [],
+    );
+    const missing = inputs.filter((p) => !verified.has(p));
+    if (!missing.length || Date.now() >= deadline) return missing;
+    await new Promise((resolve) => setTimeout(resolve, STITCH_POLL_MS));
+  }
+}
+
+// Stitch stage for /generateAllClipPreviewsAndStitch: called after each clip's
+// previews finish; the call that sees the last clip settle does the work.
+export async function stitchClipPreviews(opts: {
+  uploadId: string;
+  musicVideoId: string;
+  iteration?: number;
+  runId?: string;
+  seed?: string;
+  attempt?: number;
+  verifyTimeoutMs?: number;
+}): Promise<StitchOutcome> {
+  const { uploadId, musicVideoId, iteration, runId, seed, attempt } = opts;
+  const claim = await claimStitch(uploadId, musicVideoId);
+  if (!claim.claimed) {
+    logger.debug?.('stitch not claimed', { uploadId, ...claim.outcome });
+    return claim.outcome;
+  }
+  const { inputs } = claim;
+
+  const missing = await waitForVerified(
+    uploadId,
+    inputs,
+    opts.verifyTimeoutMs ?? STITCH_VERIFY_TIMEOUT_MS,
+  );
+  if (missing.length) {
+    logger.error('stitch gave up waiting for preview verification', {
+      uploadId,
+      musicVideoId,
+      missing,
+    });
+    await updateStitch(uploadId, {
+      status: 'failed',
+      reason: `unverified previews: ${missing.join(', ')}`,
+    });
+    return { stitched: false, status: 'failed' };
+  }
+
+  await updateStitch(uploadId, { status: 'stitching' });
+  const preset = presetForPath(inputs[0])!;
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `stitch-${uploadId}-`));
+  try {
+    const bucket = getBucket();
+    const localInputs = await Promise.all(
+      inputs.map(async (objectName, i) => {
+        const localPath = path.join(workDir, `${i}.${preset.extension}`);
+        const [contents] = await bucket.file(objectName).download();
+        await fs.writeFile(localPath, contents);
+        return localPath;
+      }),
+    );
+
+    const result = await concatPreviews({
+      inputPaths: localInputs,
+      listPath: path.join(workDir, 'inputs.txt'),
+      outputPath: path.join(workDir, `stitched.${preset.extension}`),
+      label: `stitch ${uploadId}`,
+    });
+    if (!result.ok) {
+      logger.error('stitch concat failed', {
+        uploadId,
+        reason: result.reason,
+        exitCode: result.exitCode,
+        stderr: result.stderr.slice(0, 500),
+      });
+      await updateStitch(uploadId, { status: 'failed', reason: result.reason });
+      return { stitched: false, status: 'failed' };
+    }
+
+    const probe = await probeMedia(result.outputPath);
+    const rng = seededRandom(seed, uploadId, 'stitch');
+    const filePath = formatStitchedPath({
+      uploadId,
+      name: `${musicVideoId}-${rng.hex(4)}`,
+      ext: preset.extension,
+    });
+    const uploadToken = await issueUploadToken({
+      token: uploadTokenId(uploadId, 'stitched', rng),
+      uploadId,
+      fileStoragePath: filePath,
+      issuedBy: 'stitch',
+      attempt,
+      runId,
+    });
+
+    await bucket.upload(result.outputPath, {
+      destination: filePath,
+      metadata: {
+        contentType: preset.contentType,
+        metadata: {
+          uploadSource: 'stitch',
+          uploadId,
+          musicVideoId,
+          uploadToken,
+          clipPreviewCount: String(inputs.length),
+          ...(probe?.durationSec != null && { durationSec: String(probe.durationSec) }),
+          ...(probe?.width != null && { width: String(probe.width) }),
+          ...(probe?.height != null && { height: String(probe.height) }),
+          ...(probe?.sizeBytes != null && { sizeBytes: String(probe.sizeBytes) }),
+          ...(iteration !== undefined && { iteration: String(iteration) }),
+          ...(attempt !== undefined && { processingAttempt: String(attempt) }),
+          ...(runId && { runId }),
+          ...correlationMetadata(),
+        },
+      },
+    });
+
+    await updateStitch(uploadId, {
+      status: 'stitched',
+      path: filePath,
+      uploadToken,
+      probe,
+      stitchedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    logger.info('stitched clip previews', {
+      uploadId,
+      musicVideoId,
+      filePath,
+      inputs: inputs.length,
+    });
+    return { stitched: true, status: 'stitched', path: filePath };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('stitch failed', { uploadId, musicVideoId, message });
+    await updateStitch(uploadId, { status: 'failed', reason: message });
+    return { stitched: false, status: 'failed' };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,303 @@
+import admin from 'firebase-admin';
+import { logger } from './correlation';
+import { getBucket, getDb } from './services';
+import { isManagedPath, parseStoragePath, STITCHED_PREFIX, UPLOADS_PREFIX } from './storage-paths';
+import { UPLOAD_TOKENS_COLLECTION } from './upload-tokens';
+import { stallWindowMs } from './upload-completion';
+
+// Nothing younger than this is deleted: its finalize may still be on the way.
+// GC_GRACE_MS > the upload stall window (10 minutes by default).
+export function gcGraceMs(): number {
+  const raw = process.env.GC_GRACE_MS;
+  const fromEnv = Number(raw);
+  return raw && Number.isFinite(fromEnv) && fromEnv >= 0 ? fromEnv : stallWindowMs();
+}
+
+// Finished uploads idle for longer than this are deleted with their objects,
+// tokens, clip jobs and clip definitions. UPLOAD_RETENTION_MS > default.
+export const UPLOAD_RETENTION_MS = 86400000; // 24 hours
+
+export function uploadRetentionMs(): number {
+  const fromEnv = Number(process.env.UPLOAD_RETENTION_MS);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : UPLOAD_RETENTION_MS;
+}
+
+// Why an object, token or upload doc is kept or collected.
+//   objects  verified | in-flight | in-grace (kept); upload-missing |
+//            upload-expired | unverified | malformed-path (collected)
+//   tokens   live | pending | in-grace (kept); upload-missing | upload-expired |
+//            object-orphaned | invalidated | expired | object-missing (collected)
+//   uploads  active | processing (kept); expired (collected)
+export type GcReason =
+  | 'verified'
+  | 'in-flight'
+  | 'in-grace'
+  | 'live'
+  | 'pending'
+  | 'active'
+  | 'processing'
+  | 'upload-missing'
+  | 'upload-expired'
+  | 'unverified'
+  | 'malformed-path'
+  | 'object-orphaned'
+  | 'invalidated'
+  | 'expired'
+  | 'object-missing';
+
+export interface GcFinding {
+  kind: 'object' | 'token' | 'upload';
+  // Object name, token id or upload id.
+  id: string;
+  uploadId: string | null;
+  reason: GcReason;
+  ageMs: number | null;
+  // Set on objects: whether a token doc was issued for it and consumed.
+  tokenConsumed?: boolean | null;
+}
+
+export interface GcReport {
+  dryRun: boolean;
+  graceMs: number;
+  retentionMs: number;
+  scanned: { objects: number; tokens: number; uploads: number };
+  // Counts of everything kept, by reason.
+  kept: Partial<Record<GcReason, number>>;
+  // Everything collected (or, in a dry run, that would be).
+  collected: GcFinding[];
+  // jobs and clips: subcollection docs removed with expired uploads.
+  deleted: { objects: number; tokens: number; uploads: number; jobs: number; clips: number };
+  errors: { id: string; error: string }[];
+}
+
+// States in which an upload may still be writing objects and tokens.
+const OPEN_STATUSES = ['processing'];
+
+function millis(value: unknown): number | null {
+  if (value instanceof admin.firestore.Timestamp) return value.toMillis();
+  if (typeof value === 'string') {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : ms;
+  }
+  return null;
+}
+
+function lastActivityMs(upload: admin.firestore.DocumentSnapshot): number | null {
+  const candidates = [
+    'lastFileFinalizedAt',
+    'completedAt',
+    'cancelledAt',
+    'stalledAt',
+    'processingStartedAt',
+  ]
+    .map((field) => millis(upload.get(field)))
+    .filter((ms): ms is number => ms !== null);
+  if (candidates.length) return Math.max(...candidates);
+  const created = (upload as { createTime?: admin.firestore.Timestamp }).createTime;
+  return created ? created.toMillis() : null;
+}
+
+// Cross-reference objects under uploads/ and stitched/, storageUploadTokens
+// and each upload's verifiedUploads (stitched outputs: the consumed stitch
+// token), then delete orphans and expired leftovers (or just report them with
+// dryRun). `uploadId` restricts the pass to one upload.
+export async function collectGarbage(
+  opts: {
+    dryRun?: boolean;
+    graceMs?: number;
+    retentionMs?: number;
+    uploadId?: string;
+    now?: Date;
+  } = {},
+): Promise<GcReport> {
+  const dryRun = opts.dryRun ?? false;
+  const graceMs = opts.graceMs ?? gcGraceMs();
+  const retentionMs = opts.retentionMs ?? uploadRetentionMs();
+  const now = (opts.now ?? new Date()).getTime();
+  const ageOf = (ms: number | null) => (ms === null ? null : now - ms);
+  const inGrace = (ageMs: number | null) => ageMs !== null && ageMs < graceMs;
+
+  const db = getDb();
+  const bucket = getBucket();
+  const prefixes = [UPLOADS_PREFIX, STITCHED_PREFIX].map((prefix) =>
+    opts.uploadId ? `${prefix}${opts.uploadId}/` : prefix,
+  );
+
+  const files = (
+    await Promise.all(prefixes.map(async (prefix) => (await bucket.getFiles({ prefix }))[0]))
+  ).flat();
+  const objects = await Promise.all(
+    files.map(async (file) => {
+      const [metadata] = await file.getMetadata();
+      return {
+        name: file.name,
+        timeCreated: millis(metadata.timeCreated),
+        uploadToken: (metadata.metadata?.uploadToken as string | undefined) ?? null,
+      };
+    }),
+  );
+  const tokenQuery = opts.uploadId
+    ? db.collection(UPLOAD_TOKENS_COLLECTION).where('uploadId', '==', opts.uploadId)
+    : db.collection(UPLOAD_TOKENS_COLLECTION);
+  const tokens = (await tokenQuery.get()).docs;
+  const uploads = opts.uploadId
+    ? [await db.collection('uploads').doc(opts.uploadId).get()].filter((d) => d.exists)
+    : (await db.collection('uploads').get()).docs;
+
+  const report: GcReport = {
+    dryRun,
+    graceMs,
+    retentionMs,
+    scanned: { objects: objects.length, tokens: tokens.length, uploads: uploads.length },
+    kept: {},
+    collected: [],
+    deleted: { objects: 0, tokens: 0, uploads: 0, jobs: 0, clips: 0 },
+    errors: [],
+  };
+  const keep = (reason: GcReason) => {
+    report.kept[reason] = (report.kept[reason] ?? 0) + 1;
+  };
+
+  // Uploads first: an expired upload takes its objects and tokens with it.
+  const uploadById = new Map(uploads.map((u) => [u.id, u]));
+  const expiredUploads = new Set<string>();
+  for (const upload of uploads) {
+    const ageMs = ageOf(lastActivityMs(upload));
+    if (OPEN_STATUSES.includes(upload.get('status'))) {
+      keep('processing');
+    } else if (ageMs !== null && ageMs > retentionMs) {
+      expiredUploads.add(upload.id);
+      report.collected.push({
+        kind: 'upload',
+        id: upload.id,
+        uploadId: upload.id,
+        reason: 'expired',
+        ageMs,
+      });
+    } else {
+      keep('active');
+    }
+  }
+
+  const tokenById = new Map(tokens.map((t) => [t.id, t]));
+  const objectNames = new Set(objects.map((o) => o.name));
+  const collectedObjects = new Set<string>();
+  for (const object of objects) {
+    const parsed = parseStoragePath(object.name);
+    const uploadId = parsed.ok ? parsed.path.uploadId : null;
+    const upload = uploadId ? uploadById.get(uploadId) : undefined;
+    const ageMs = ageOf(object.timeCreated);
+    const token = object.uploadToken ? tokenById.get(object.uploadToken) : undefined;
+
+    // A stitched output is verified when its finalize consumed the stitch token
+    const verified =
+      parsed.ok && parsed.path.kind === 'stitched'
+        ? token?.get('isConsumed') === true && token.get('fileStoragePath') === object.name
+        : (upload?.get('verifiedUploads') ?? []).includes(object.name);
+
+    let reason: GcReason;
+    if (!parsed.ok) reason = 'malformed-path';
+    else if (!upload) reason = 'upload-missing';
+    else if (expiredUploads.has(upload.id)) reason = 'upload-expired';
+    else if (verified) reason = 'verified';
+    else if (
+      OPEN_STATUSES.includes(upload.get('status')) ||
+      (parsed.path.kind === 'stitched' && upload.get('stitch.status') === 'stitching')
+    ) {
+      reason = 'in-flight';
+    }
+    // Token never consumed, or its finalize was dropped (e.g. misrouted)
+    else reason = 'unverified';
+
+    if (reason === 'verified' || reason === 'in-flight') {
+      keep(reason);
+    } else if (reason !== 'upload-expired' && inGrace(ageMs)) {
+      keep('in-grace');
+    } else {
+      collectedObjects.add(object.name);
+      report.collected.push({
+        kind: 'object',
+        id: object.name,
+        uploadId,
+        reason,
+        ageMs,
+        tokenConsumed: token ? token.get('isConsumed') === true : null,
+      });
+    }
+  }
+
+  const collectedTokens: admin.firestore.DocumentSnapshot[] = [];
+  for (const token of tokens) {
+    const uploadId = (token.get('uploadId') as string | undefined) ?? null;
+    const path = token.get('fileStoragePath') as string | undefined;
+    const consumed = token.get('isConsumed') === true;
+    const ageMs = ageOf(millis(token.get('dateCreated')));
+    const expires = millis(token.get('dateExpires'));
+    const upload = uploadId ? uploadById.get(uploadId) : undefined;
+    // Both managed prefixes were listed above; anything else is checked directly
+    const objectExists = async () =>
+      !path ? false : isManagedPath(path) ? objectNames.has(path) : (await bucket.file(path).exists())[0];
+
+    let reason: GcReason;
+    if (!upload) reason = 'upload-missing';
+    else if (expiredUploads.has(upload.id)) reason = 'upload-expired';
+    else if (path && collectedObjects.has(path)) reason = 'object-orphaned';
+    else if (token.get('isInvalidated') === true) reason = 'invalidated';
+    else if (!consumed && (token.get('isExpired') === true || (expires !== null && expires <= now))) {
+      reason = 'expired';
+    } else if (consumed) reason = (await objectExists()) ? 'live' : 'object-missing';
+    else reason = 'pending';
+
+    if (reason === 'live' || reason === 'pending') {
+      keep(reason);
+    } else if (reason !== 'upload-expired' && reason !== 'object-orphaned' && inGrace(ageMs)) {
+      keep('in-grace');
+    } else {
+      collectedTokens.push(token);
+      report.collected.push({ kind: 'token', id: token.id, uploadId, reason, ageMs });
+    }
+  }
+
+  if (!dryRun) {
+    const attempt = async (id: string, fn: () => Promise<unknown>) => {
+      try {
+        await fn();
+        return true;
+      } catch (e) {
+        report.errors.push({ id, error: (e as Error).message });
+        return false;
+      }
+    };
+    for (const name of collectedObjects) {
+      if (await attempt(name, () => bucket.file(name).delete({ ignoreNotFound: true }))) {
+        report.deleted.objects++;
+      }
+    }
+    for (const token of collectedTokens) {
+      if (await attempt(token.id, () => token.ref.delete())) report.deleted.tokens++;
+    }
+    for (const uploadId of expiredUploads) {
+      const ref = db.collection('uploads').doc(uploadId);
+      const removed = await attempt(uploadId, async () => {
+        // Firestore leaves subcollections behind when their parent is deleted
+        for (const sub of ['jobs', 'clips'] as const) {
+          const docs = (await ref.collection(sub).get()).docs;
+          await Promise.all(docs.map((doc) => doc.ref.delete()));
+          report.deleted[sub] += docs.length;
+        }
+        await ref.delete();
+      });
+      if (removed) report.deleted.uploads++;
+    }
+  }
+
+  logger.info('storage garbage collection', {
+    dryRun,
+    scanned: report.scanned,
+    kept: report.kept,
+    collected: report.collected.length,
+    deleted: report.deleted,
+    errors: report.errors.length,
+  });
+  return report;
+}
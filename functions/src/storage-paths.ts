@@ -0,0 +1,171 @@
+import admin from 'firebase-admin';
+import { PATH_ANOMALIES_COLLECTION } from './collections';
+import { currentCorrelationId, logger } from './correlation';
+import { getDb } from './services';
+
+// Object layout in the bucket:
+//   uploads/{uploadId}/clips/{clipId}/{variant}.{ext}   clip previews and renders
+//   stitched/{uploadId}/{name}.{ext}                    stitched outputs
+// Segments may contain hyphens; only '/' separates them.
+
+export const UPLOADS_PREFIX = 'uploads/';
+export const STITCHED_PREFIX = 'stitched/';
+
+export { PATH_ANOMALIES_COLLECTION };
+
+export interface ClipObjectPath {
+  kind: 'clip';
+  uploadId: string;
+  clipId: string;
+  variant: string;
+  ext: string;
+}
+
+export interface StitchedObjectPath {
+  kind: 'stitched';
+  uploadId: string;
+  name: string;
+  ext: string;
+}
+
+export type StorageObjectPath = ClipObjectPath | StitchedObjectPath;
+
+export type PathParseResult =
+  | { ok: true; path: StorageObjectPath }
+  | { ok: false; reason: string };
+
+const SEGMENT_PATTERN = /^[A-Za-z0-9_.-]{1,128}$/;
+const EXT_PATTERN = /^[a-z0-9]{1,8}$/;
+
+export class StoragePathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoragePathError';
+  }
+}
+
+function isSegment(value: string): boolean {
+  return SEGMENT_PATTERN.test(value) && value !== '.' && value !== '..';
+}
+
+function checkSegment(label: string, value: string): void {
+  if (!isSegment(value)) {
+    throw new StoragePathError(`${label} "${value}" is not a valid path segment`);
+  }
+}
+
+function checkExt(ext: string): void {
+  if (!EXT_PATTERN.test(ext)) {
+    throw new StoragePathError(`extension "${ext}" is not valid`);
+  }
+}
+
+// Prefix that every object of an upload's clips lives under.
+export function uploadPrefix(uploadId: string): string {
+  checkSegment('uploadId', uploadId);
+  return `${UPLOADS_PREFIX}${uploadId}/`;
+}
+
+export function formatClipPath(p: Omit<ClipObjectPath, 'kind'>): string {
+  checkSegment('clipId', p.clipId);
+  checkSegment('variant', p.variant);
+  checkExt(p.ext);
+  return `${uploadPrefix(p.uploadId)}clips/${p.clipId}/${p.variant}.${p.ext}`;
+}
+
+export function formatStitchedPath(p: Omit<StitchedObjectPath, 'kind'>): string {
+  checkSegment('uploadId', p.uploadId);
+  checkSegment('name', p.name);
+  checkExt(p.ext);
+  return `${STITCHED_PREFIX}${p.uploadId}/${p.name}.${p.ext}`;
+}
+
+export function formatStoragePath(p: StorageObjectPath): string {
+  return p.kind === 'clip' ? formatClipPath(p) : formatStitchedPath(p);
+}
+
+// Split "{stem}.{ext}" on the last dot.
+function splitFileName(
+  fileName: string,
+): { stem: string; ext: string } | null {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return null;
+  const stem = fileName.slice(0, dot);
+  const ext = fileName.slice(dot + 1);
+  return isSegment(stem) && EXT_PATTERN.test(ext) ? { stem, ext } : null;
+}
+
+export function parseStoragePath(objectName: string): PathParseResult {
+  const parts = objectName.split('/');
+
+  if (objectName.startsWith(UPLOADS_PREFIX)) {
+    const [, uploadId, clips, clipId, fileName, ...rest] = parts;
+    if (rest.length || fileName === undefined || clips !== 'clips') {
+      return {
+        ok: false,
+        reason: 'expected uploads/{uploadId}/clips/{clipId}/{variant}.{ext}',
+      };
+    }
+    if (!isSegment(uploadId)) return { ok: false, reason: 'invalid uploadId segment' };
+    if (!isSegment(clipId)) return { ok: false, reason: 'invalid clipId segment' };
+    const file = splitFileName(fileName);
+    if (!file) return { ok: false, reason: 'invalid file name' };
+    return {
+      ok: true,
+      path: { kind: 'clip', uploadId, clipId, variant: file.stem, ext: file.ext },
+    };
+  }
+
+  if (objectName.startsWith(STITCHED_PREFIX)) {
+    const [, uploadId, fileName, ...rest] = parts;
+    if (rest.length || fileName === undefined) {
+      return { ok: false, reason: 'expected stitched/{uploadId}/{name}.{ext}' };
+    }
+    if (!isSegment(uploadId)) return { ok: false, reason: 'invalid uploadId segment' };
+    const file = splitFileName(fileName);
+    if (!file) return { ok: false, reason: 'invalid file name' };
+    return {
+      ok: true,
+      path: { kind: 'stitched', uploadId, name: file.stem, ext: file.ext },
+    };
+  }
+
+  return { ok: false, reason: 'unknown prefix' };
+}
+
+// Whether the object is under a prefix this scheme owns; anything else in
+// the bucket is not ours to parse.
+export function isManagedPath(objectName: string): boolean {
+  return (
+    objectName.startsWith(UPLOADS_PREFIX) ||
+    objectName.startsWith(STITCHED_PREFIX)
+  );
+}
+
+// Keyed by event id so redelivered events do not pile up duplicates.
+export async function recordPathAnomaly(opts: {
+  eventId: string;
+  functionName: string;
+  objectName: string;
+  reason: string;
+  parsedUploadId?: string | null;
+  metadataUploadId?: string | null;
+  iteration?: string | null;
+  runId?: string | null;
+}): Promise<void> {
+  logger.error('malformed storage path', opts);
+  await getDb()
+    .collection(PATH_ANOMALIES_COLLECTION)
+    .doc(opts.eventId)
+    .set({
+      functionName: opts.functionName,
+      objectName: opts.objectName,
+      reason: opts.reason,
+      parsedUploadId: opts.parsedUploadId ?? null,
+      metadataUploadId: opts.metadataUploadId ?? null,
+      iteration: opts.iteration ?? null,
+      runId: opts.runId ?? null,
+      correlationId: currentCorrelationId() ?? null,
+      detectedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+}
@@ -1,6 +1,22 @@
 import admin from 'firebase-admin';
 import { onObjectFinalized } from 'firebase-functions/v2/storage';
-import { logger } from 'firebase-functions';
+import { PROCESSED_EVENTS_COLLECTION } from './collections';
+import { currentCorrelationId, logger, withCorrelation } from './correlation';
+import { withRoutingCheck } from './routing-guard';
+import { getDb } from './services';
+import {
+  isManagedPath,
+  parseStoragePath,
+  recordPathAnomaly,
+} from './storage-paths';
+import {
+  consumeUploadToken,
+  uploadTokenRef,
+  validateUploadToken,
+} from './upload-tokens';
+import type { TokenCheck } from './upload-tokens';
+import { isStaleAttempt, recordVerifiedUpload } from './upload-completion';
+import { reproFactors } from './repro-factors';
 
 // Initialize Admin SDK only once.
 if (!admin.apps.length) {
@@ -12,82 +28,183 @@ const triggerOptions = {
   memory: '512MiB' as const,
   maxInstances: 10,
   invoker: 'private' as const,
-  concurrency: 1000, // Key: high concurrency like parent project
+  // Key: high concurrency like parent project (repro factor highConcurrency)
+  concurrency: reproFactors().highConcurrency ? 1000 : 1,
 };
 
+// Ledger of handled finalize CloudEvents, keyed by event id.
+export { PROCESSED_EVENTS_COLLECTION };
+
+type FinalizeOutcome = 'verified' | 'stale-attempt' | Exclude<TokenCheck, 'valid'>;
+
 // Storage v2 onObjectFinalized trigger: when the file is finalized, mark Firestore doc with finalizedAt.
-export const onUploadFileFinalize = onObjectFinalized(
-  {
-    ...triggerOptions,
-  },
-  async (event) => {
-    logger.info('onUploadFileFinalize', { name: event.data.name });
-
-    const name = event.data.name;
-    if (!name) return;
-    if (!name.startsWith('uploads/')) {
-      return; // Ignore other files.
-    }
-
-    // Try to access metadata like parent project
-    const metadata = event.data.metadata;
-
-    // **KEY: Add upload token verification (like parent project)**
-    if (metadata?.uploadToken) {
-      const tokenRef = admin
-        .firestore()
-        .collection('storageUploadTokens')
-        .doc(metadata.uploadToken);
-
-      // **CRITICAL: Multiple Firestore operations per Storage event (like parent)**
-      const tokenDoc = await tokenRef.get();
-      const tokenData = tokenDoc.data();
-
-      if (!tokenData) {
-        logger.warn('upload token missing', {
-          uploadToken: metadata.uploadToken,
-        });
-        return;
+export const onUploadFileFinalize = withRoutingCheck(
+  'onUploadFileFinalize',
+  'storage',
+  onObjectFinalized(
+    {
+      ...triggerOptions,
+    },
+    // Continue the chain of the upload that wrote this object
+    (event) => withCorrelation(event.data.metadata?.correlationId, async () => {
+      logger.info('onUploadFileFinalize', { name: event.data.name });
+
+      const name = event.data.name;
+      if (!name) return;
+      if (!isManagedPath(name)) {
+        return; // Ignore other files.
       }
 
-      if (tokenData.isConsumed) {
-        logger.debug?.('token already consumed', {
-          uploadToken: metadata.uploadToken,
+      // Try to access metadata like parent project
+      const metadata = event.data.metadata;
+
+      // The path names the upload doc; every uploader also stamps uploadId in
+      // metadata, and the two must agree before anything is written.
+      const parsed = parseStoragePath(name);
+      const metadataUploadId = metadata?.uploadId ?? null;
+      if (
+        !parsed.ok ||
+        (metadataUploadId !== null && metadataUploadId !== parsed.path.uploadId)
+      ) {
+        await recordPathAnomaly({
+          eventId: event.id,
+          functionName: 'onUploadFileFinalize',
+          objectName: name,
+          reason: parsed.ok ? 'path uploadId does not match metadata' : parsed.reason,
+          parsedUploadId: parsed.ok ? parsed.path.uploadId : null,
+          metadataUploadId,
+          iteration: metadata?.iteration ?? null,
+          runId: metadata?.runId ?? null,
         });
         return;
       }
+      const { uploadId } = parsed.path;
+      const isStitched = parsed.path.kind === 'stitched';
+
+      const db = getDb();
+      const ledgerRef = db.collection(PROCESSED_EVENTS_COLLECTION).doc(event.id);
+      const uploadToken = metadata?.uploadToken;
+      const tokenRef = uploadToken ? uploadTokenRef(uploadToken) : undefined;
+      const ref = db.doc(`uploads/${uploadId}`);
+
+      // **KEY: Token check + consume + verifiedUploads append commit together,
+      // so concurrent or redelivered finalize events cannot double-consume.**
+      const result = await db.runTransaction(async (tx) => {
+        const ledgerDoc = await tx.get(ledgerRef);
+        if (ledgerDoc.exists) {
+          return {
+            outcome: 'duplicate' as const,
+            firstOutcome: ledgerDoc.get('outcome') as FinalizeOutcome,
+          };
+        }
+
+        let outcome: FinalizeOutcome = 'verified';
+        let tokenData: admin.firestore.DocumentData | undefined;
+        if (tokenRef) {
+          tokenData = (await tx.get(tokenRef)).data();
+          const check = validateUploadToken(tokenData, name);
+          if (check !== 'valid') outcome = check;
+        }
+        const upload = await tx.get(ref);
+        // The token records which run issued it; tokenless objects say so in metadata
+        const fileAttempt = tokenData?.attempt ?? metadata?.processingAttempt;
+        if (outcome === 'verified' && isStaleAttempt(upload, fileAttempt)) {
+          outcome = 'stale-attempt';
+        }
 
-      if (tokenData.fileStoragePath !== name) {
-        logger.warn('token file mismatch', {
-          expected: tokenData.fileStoragePath,
-          actual: name,
+        tx.set(ledgerRef, {
+          functionName: 'onUploadFileFinalize',
+          objectName: name,
+          generation: event.data.generation ?? null,
+          uploadToken: uploadToken ?? null,
+          uploadId,
+          outcome,
+          correlationId: currentCorrelationId() ?? null,
+          runId: metadata?.runId ?? null,
+          processedAt: admin.firestore.FieldValue.serverTimestamp(),
         });
-        return;
-      }
+        if (outcome !== 'verified') return { outcome, tokenData, completed: false };
+
+        if (uploadToken) {
+          // **CRITICAL: Mark token as consumed (FIRESTORE WRITE)**
+          consumeUploadToken(tx, uploadToken, {
+            functionName: 'onUploadFileFinalize',
+            eventId: event.id,
+            objectGeneration:
+              event.data.generation != null
+                ? String(event.data.generation)
+                : null,
+          });
+        }
+
+        // Stitched output is recorded on `stitch`, not among the clip uploads
+        if (isStitched) {
+          tx.set(
+            ref,
+            {
+              stitch: {
+                verifiedAt: admin.firestore.FieldValue.serverTimestamp(),
+              },
+            },
+            { merge: true },
+          );
+          return { outcome, tokenData, completed: false };
+        }
 
-      // **CRITICAL: Mark token as consumed (FIRESTORE WRITE)**
-      await tokenRef.update({
-        dateConsumed: admin.firestore.FieldValue.serverTimestamp(),
-        isConsumed: true,
+        // **CRITICAL: Additional Firestore update (3rd Firestore operation per Storage event)**
+        // Also closes out the upload once the expected file count is verified.
+        const { completed } = recordVerifiedUpload(tx, upload, name);
+        return { outcome, tokenData, completed };
       });
-    }
-
-    // Expect pattern uploads/{uploadId}-<counter>-<rand>.txt
-    const base = name.split('/').pop();
-    if (!base) return;
-    const mainIdPart = base.split('-')[0];
-    const uploadId = mainIdPart.replace(/\.txt$/, '');
-
-    const ref = admin.firestore().doc(`uploads/${uploadId}`);
-
-    // **CRITICAL: Additional Firestore update (3rd Firestore operation per Storage event)**
-    await ref.set(
-      {
-        lastFileFinalizedAt: admin.firestore.FieldValue.serverTimestamp(),
-        processing: true,
-        verifiedUploads: admin.firestore.FieldValue.arrayUnion(name),
-      },
-      { merge: true },
-    );
-  },
+
+      if (result.outcome === 'verified' && result.completed) {
+        logger.info('upload completed', { uploadId, lastObject: name });
+      }
+
+      switch (result.outcome) {
+        case 'duplicate':
+          logger.info('duplicate finalize event ignored', {
+            eventId: event.id,
+            name,
+            firstOutcome: result.firstOutcome,
+          });
+          break;
+        case 'token-missing':
+          logger.warn('upload token missing', { uploadToken });
+          break;
+        case 'token-already-consumed':
+          logger.debug?.('token already consumed', {
+            uploadToken,
+            consumedBy: result.tokenData?.consumedBy,
+          });
+          break;
+        case 'token-path-mismatch':
+          logger.warn('token file mismatch', {
+            expected: result.tokenData?.fileStoragePath,
+            actual: name,
+          });
+          break;
+        case 'stale-attempt':
+          logger.info('finalize from an earlier processing attempt ignored', {
+            uploadToken,
+            name,
+          });
+          break;
+        case 'token-expired':
+          logger.warn('upload token expired, upload rejected', {
+            uploadToken,
+            dateExpires: result.tokenData?.dateExpires?.toDate().toISOString(),
+            name,
+          });
+          break;
+        case 'token-invalidated':
+          logger.warn('upload token invalidated, upload rejected', {
+            uploadToken,
+            reason: result.tokenData?.invalidatedReason,
+            name,
+          });
+          break;
+      }
+    }),
+  ),
 );
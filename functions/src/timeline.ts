@@ -0,0 +1,244 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import { currentCorrelationId } from './correlation';
+
+// Spans are appended as JSON lines to one file per worker process under
+// TIMELINE_DIR, outside Firestore so recording does not add trigger traffic.
+// Set TIMELINE_DISABLED=1 to turn recording off.
+export const DEFAULT_TIMELINE_DIR = path.join(
+  os.tmpdir(),
+  'onobjectfinalize-timeline',
+);
+
+export type SpanKind = 'trigger' | 'http' | 'ffmpeg';
+
+export interface TimelineSpan {
+  kind: SpanKind;
+  name: string;
+  pid: number;
+  startMs: number;
+  endMs: number;
+  ok: boolean;
+  error?: string;
+  correlationId: string | null;
+  iteration: number | null;
+  args: Record<string, unknown>;
+}
+
+// Handed to the traced function so it can attach details (e.g. a child pid)
+// that are only known once it is running.
+export interface SpanHandle {
+  args: Record<string, unknown>;
+}
+
+export function timelineDir(): string {
+  return process.env.TIMELINE_DIR ?? DEFAULT_TIMELINE_DIR;
+}
+
+function timelineEnabled(): boolean {
+  return process.env.TIMELINE_DISABLED !== '1';
+}
+
+// Epoch milliseconds with sub-millisecond precision.
+function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+// Appends are chained so lines from one worker never interleave.
+let pending: Promise<void> = Promise.resolve();
+let dirReady: Promise<unknown> | undefined;
+
+function appendSpan(span: TimelineSpan): void {
+  const dir = timelineDir();
+  dirReady ??= fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `timeline-${process.pid}.jsonl`);
+  pending = pending
+    .then(() => dirReady)
+    .then(() => fs.appendFile(file, `${JSON.stringify(span)}\n`))
+    .catch((e) => {
+      console.error('timeline write failed', (e as Error).message);
+    });
+}
+
+// Resolves once every span recorded so far is on disk.
+export function flushTimeline(): Promise<void> {
+  return pending;
+}
+
+export async function recordSpan<T>(
+  start: {
+    kind: SpanKind;
+    name: string;
+    iteration?: number | null;
+    // Defaults to the chain current when the span ends.
+    correlationId?: string | null;
+    args?: Record<string, unknown>;
+  },
+  fn: (span: SpanHandle) => Promise<T>,
+): Promise<T> {
+  if (!timelineEnabled()) return fn({ args: {} });
+
+  const handle: SpanHandle = { args: { ...start.args } };
+  const startMs = nowMs();
+  const finish = (ok: boolean, error?: unknown) =>
+    appendSpan({
+      kind: start.kind,
+      name: start.name,
+      pid: process.pid,
+      startMs,
+      endMs: nowMs(),
+      ok,
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+      correlationId:
+        start.correlationId !== undefined
+          ? start.correlationId
+          : currentCorrelationId() ?? null,
+      iteration: start.iteration ?? null,
+      args: handle.args,
+    });
+
+  try {
+    const result = await fn(handle);
+    finish(true);
+    return result;
+  } catch (error) {
+    finish(false, error);
+    throw error;
+  }
+}
+
+export async function readTimeline(dir = timelineDir()): Promise<TimelineSpan[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => f.endsWith('.jsonl'));
+  } catch {
+    return [];
+  }
+  const spans: TimelineSpan[] = [];
+  for (const file of files) {
+    const text = await fs.readFile(path.join(dir, file), 'utf8');
+    for (const line of text.split('\n')) {
+      if (line.trim()) spans.push(JSON.parse(line) as TimelineSpan);
+    }
+  }
+  return spans.sort((a, b) => a.startMs - b.startMs);
+}
+
+export async function clearTimeline(dir = timelineDir()): Promise<void> {
+  await fs.rm(dir, { recursive: true, force: true });
+  dirReady = undefined;
+}
+
+export interface TriggerOverlap {
+  pid: number;
+  storage: TimelineSpan;
+  firestore: TimelineSpan;
+  overlapStartMs: number;
+  overlapEndMs: number;
+}
+
+// Storage finalize and Firestore update trigger spans that were running at the
+// same time in the same worker process.
+export function findTriggerOverlaps(spans: TimelineSpan[]): TriggerOverlap[] {
+  const triggers = spans.filter((s) => s.kind === 'trigger');
+  const storage = triggers.filter((s) => s.args.provider === 'storage');
+  const firestore = triggers.filter((s) => s.args.provider === 'firestore');
+
+  const overlaps: TriggerOverlap[] = [];
+  for (const s of storage) {
+    for (const f of firestore) {
+      if (s.pid !== f.pid) continue;
+      const overlapStartMs = Math.max(s.startMs, f.startMs);
+      const overlapEndMs = Math.min(s.endMs, f.endMs);
+      if (overlapStartMs < overlapEndMs) {
+        overlaps.push({ pid: s.pid, storage: s, firestore: f, overlapStartMs, overlapEndMs });
+      }
+    }
+  }
+  return overlaps.sort((a, b) => a.overlapStartMs - b.overlapStartMs);
+}
+
+interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'i' | 'M';
+  ts?: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  s?: 'p';
+  args?: Record<string, unknown>;
+}
+
+// Chrome Trace Event format (JSON object form) for chrome://tracing and
+// Perfetto. Complete events must nest per thread, so overlapping spans of a
+// worker are spread over lanes (tids); overlaps become process-scoped
+// instant events.
+export function toChromeTrace(
+  spans: TimelineSpan[],
+  overlaps: TriggerOverlap[] = findTriggerOverlaps(spans),
+): { traceEvents: TraceEvent[]; displayTimeUnit: 'ms' } {
+  const origin = spans.length ? spans[0].startMs : 0;
+  const us = (ms: number) => Math.round((ms - origin) * 1000);
+  const laneEnds = new Map<number, number[]>();
+  const events: TraceEvent[] = [];
+
+  for (const span of spans) {
+    const lanes = laneEnds.get(span.pid) ?? [];
+    laneEnds.set(span.pid, lanes);
+    let lane = lanes.findIndex((end) => end <= span.startMs);
+    if (lane === -1) lane = lanes.push(0) - 1;
+    lanes[lane] = span.endMs;
+
+    events.push({
+      name: span.name,
+      cat: span.kind,
+      ph: 'X',
+      ts: us(span.startMs),
+      dur: Math.max(1, us(span.endMs) - us(span.startMs)),
+      pid: span.pid,
+      tid: lane + 1,
+      args: {
+        ...span.args,
+        ok: span.ok,
+        ...(span.error && { error: span.error }),
+        correlationId: span.correlationId,
+        iteration: span.iteration,
+      },
+    });
+  }
+
+  for (const overlap of overlaps) {
+    events.push({
+      name: 'OVERLAP storage finalize / firestore update',
+      cat: 'overlap',
+      ph: 'i',
+      s: 'p',
+      ts: us(overlap.overlapStartMs),
+      pid: overlap.pid,
+      tid: 0,
+      args: {
+        storage: overlap.storage.name,
+        firestore: overlap.firestore.name,
+        overlapMs: overlap.overlapEndMs - overlap.overlapStartMs,
+        storageCorrelationId: overlap.storage.correlationId,
+        firestoreCorrelationId: overlap.firestore.correlationId,
+      },
+    });
+  }
+
+  for (const pid of laneEnds.keys()) {
+    events.push({
+      name: 'process_name',
+      ph: 'M',
+      pid,
+      tid: 0,
+      args: { name: `functions worker ${pid}` },
+    });
+  }
+  return { traceEvents: events, displayTimeUnit: 'ms' };
+}
@@ -0,0 +1,223 @@
+import admin from 'firebase-admin';
+import { currentCorrelationId, logger } from './correlation';
+import { getDb } from './services';
+import type { CancelReason } from './cancellation';
+
+// `failed`: every expected file settled, but at least one upload failed.
+export type UploadStatus = 'processing' | 'completed' | 'failed' | 'stalled' | 'cancelled';
+
+// An upload still processing with no finalize for this long is stalled.
+export const UPLOAD_STALL_WINDOW_MS = 600000; // 10 minutes
+
+export function stallWindowMs(): number {
+  const fromEnv = Number(process.env.UPLOAD_STALL_WINDOW_MS);
+  return Number.isFinite(fromEnv) && fromEnv > 0
+    ? fromEnv
+    : UPLOAD_STALL_WINDOW_MS;
+}
+
+function uploadRef(uploadId: string) {
+  return getDb().collection('uploads').doc(uploadId);
+}
+
+// Open a processing run: record how many files must be verified before the
+// upload counts as done and clear the previous run's outcome. Returns the
+// run's attempt number (1 for the first run of the upload), which the run
+// stamps on its tokens and objects.
+export async function beginUploadProcessing(
+  uploadId: string,
+  expectedFiles: number,
+): Promise<number> {
+  const ref = uploadRef(uploadId);
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  return getDb().runTransaction(async (tx) => {
+    const upload = await tx.get(ref);
+    const previous = upload.get('processingAttempt');
+    const attempt = (typeof previous === 'number' ? previous : 0) + 1;
+    tx.set(
+      ref,
+      {
+        expectedFiles,
+        processingAttempt: attempt,
+        correlationId: currentCorrelationId() ?? null,
+        verifiedUploads: [],
+        failedUploads: [],
+        status: 'processing',
+        processing: true,
+        processingStartedAt: now,
+        completedAt: admin.firestore.FieldValue.delete(),
+        stalledAt: admin.firestore.FieldValue.delete(),
+        cancelRequested: admin.firestore.FieldValue.delete(),
+        cancelledAt: admin.firestore.FieldValue.delete(),
+        cancelReason: admin.firestore.FieldValue.delete(),
+      },
+      { merge: true },
+    );
+    return attempt;
+  });
+}
+
+// Close out a processing run as cancelled. Returns false (and writes nothing)
+// when the run already completed, stalled or was cancelled.
+export async function cancelUploadProcessing(
+  uploadId: string,
+  reason: CancelReason,
+): Promise<boolean> {
+  const ref = uploadRef(uploadId);
+  return getDb().runTransaction(async (tx) => {
+    const upload = await tx.get(ref);
+    if (upload.get('status') !== 'processing') return false;
+    tx.update(ref, {
+      status: 'cancelled',
+      processing: false,
+      cancelReason: reason,
+      cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+// Whether a file was produced by an earlier run than the upload's current
+// one. A regenerate resets the counts, so a late finalize from the previous
+// run must not be counted toward the new run.
+export function isStaleAttempt(
+  upload: admin.firestore.DocumentSnapshot,
+  fileAttempt: unknown,
+): boolean {
+  const current = upload.get('processingAttempt');
+  const attempt = typeof fileAttempt === 'string' ? Number(fileAttempt) : fileAttempt;
+  return (
+    typeof current === 'number' &&
+    typeof attempt === 'number' &&
+    Number.isFinite(attempt) &&
+    attempt !== current
+  );
+}
+
+// A closed run only changes again when a new run begins.
+function isClosed(status: unknown): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+// Close out the run once every expected file is either verified or failed.
+function closeOutPatch(
+  upload: admin.firestore.DocumentSnapshot,
+  verified: number,
+  failed: number,
+): Record<string, unknown> | null {
+  const expected = upload.get('expectedFiles') as number | undefined;
+  if (isClosed(upload.get('status'))) return null;
+  if (typeof expected !== 'number' || verified + failed < expected) return null;
+  return {
+    processing: false,
+    status: failed ? 'failed' : 'completed',
+    completedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+// Called from the finalize transaction with the upload doc read in that same
+// transaction, so exactly one finalize closes the upload out. A cancelled
+// upload keeps its status; late files are still listed as verified.
+export function recordVerifiedUpload(
+  tx: admin.firestore.Transaction,
+  upload: admin.firestore.DocumentSnapshot,
+  objectName: string,
+): { completed: boolean } {
+  const verified = new Set<string>(upload.get('verifiedUploads') ?? []);
+  verified.add(objectName);
+  const failed = (upload.get('failedUploads') ?? []).length;
+  const status = upload.get('status') as UploadStatus | undefined;
+  const closeOut = closeOutPatch(upload, verified.size, failed);
+
+  tx.set(
+    upload.ref,
+    {
+      lastFileFinalizedAt: admin.firestore.FieldValue.serverTimestamp(),
+      verifiedUploads: admin.firestore.FieldValue.arrayUnion(objectName),
+      ...(closeOut ?? (!isClosed(status) && { processing: true })),
+    },
+    { merge: true },
+  );
+  return { completed: closeOut !== null };
+}
+
+// A file of the run that will never finalize because its upload failed. It
+// counts toward expectedFiles, so the run still closes out (as `failed`)
+// instead of waiting for the stall sweep. Ignored when a newer run started.
+export async function recordFailedUpload(
+  uploadId: string,
+  objectName: string,
+  attempt: number | undefined,
+): Promise<void> {
+  const ref = uploadRef(uploadId);
+  await getDb().runTransaction(async (tx) => {
+    const upload = await tx.get(ref);
+    if (isStaleAttempt(upload, attempt)) return;
+    const failed = new Set<string>(upload.get('failedUploads') ?? []);
+    failed.add(objectName);
+    const verified = (upload.get('verifiedUploads') ?? []).length;
+    tx.set(
+      ref,
+      {
+        failedUploads: admin.firestore.FieldValue.arrayUnion(objectName),
+        ...closeOutPatch(upload, verified, failed.size),
+      },
+      { merge: true },
+    );
+  });
+  logger.warn('upload recorded as failed', { uploadId, objectName, attempt });
+}
+
+export interface StalledUploadReport {
+  uploadId: string;
+  expectedFiles: number | null;
+  verifiedFiles: number;
+  lastActivity: string | null;
+}
+
+// Mark processing uploads whose last finalize (or start, if none arrived) is
+// older than the stall window.
+export async function sweepStalledUploads(
+  opts: { windowMs?: number; now?: Date; limit?: number } = {},
+): Promise<StalledUploadReport[]> {
+  const windowMs = opts.windowMs ?? stallWindowMs();
+  const cutoff = (opts.now ?? new Date()).getTime() - windowMs;
+  const snap = await getDb()
+    .collection('uploads')
+    .where('status', '==', 'processing')
+    .limit(opts.limit ?? 500)
+    .get();
+
+  const report: StalledUploadReport[] = [];
+  for (const doc of snap.docs) {
+    const stalled = await getDb().runTransaction(async (tx) => {
+      const upload = await tx.get(doc.ref);
+      if (upload.get('status') !== 'processing') return null;
+      const last = (upload.get('lastFileFinalizedAt') ??
+        upload.get('processingStartedAt')) as
+        | admin.firestore.Timestamp
+        | undefined;
+      if (last && last.toMillis() > cutoff) return null;
+
+      tx.update(doc.ref, {
+        status: 'stalled',
+        processing: false,
+        stalledAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return {
+        uploadId: doc.id,
+        expectedFiles: upload.get('expectedFiles') ?? null,
+        verifiedFiles: (upload.get('verifiedUploads') ?? []).length,
+        lastActivity: last?.toDate().toISOString() ?? null,
+      };
+    });
+    if (stalled) report.push(stalled);
+  }
+
+  logger.info('marked stalled uploads', {
+    windowMs,
+    count: report.length,
+    uploads: report,
+  });
+  return report;
+}
@@ -0,0 +1,217 @@
+import admin from 'firebase-admin';
+import { UPLOAD_TOKENS_COLLECTION } from './collections';
+import { currentCorrelationId, logger } from './correlation';
+import { getBucket, getDb } from './services';
+import type { SeededRandom } from './seeded-random';
+
+export { UPLOAD_TOKENS_COLLECTION };
+
+// How long an issued token may wait for its object to finalize.
+export const UPLOAD_TOKEN_TTL_MS = 3600000; // 1 hour
+
+export type TokenCheck =
+  | 'valid'
+  | 'token-missing'
+  | 'token-already-consumed'
+  | 'token-path-mismatch'
+  | 'token-expired'
+  | 'token-invalidated';
+
+export interface UploadTokenData {
+  fileStoragePath: string;
+  uploadId: string;
+  issuedBy: string;
+  // Processing attempt of the upload that issued the token, when known.
+  attempt?: number;
+  dateExpires: admin.firestore.Timestamp;
+  isConsumed: boolean;
+  dateCreated: admin.firestore.FieldValue | admin.firestore.Timestamp;
+  dateConsumed?: admin.firestore.Timestamp;
+  consumedBy?: TokenConsumer;
+  isExpired?: boolean;
+  isInvalidated?: boolean;
+  dateInvalidated?: admin.firestore.Timestamp;
+  invalidatedReason?: string;
+  correlationId?: string | null;
+  runId?: string | null;
+}
+
+// Who consumed a token, recorded on the token doc.
+export interface TokenConsumer {
+  functionName: string;
+  eventId: string;
+  objectGeneration: string | null;
+}
+
+export function uploadTokenRef(token: string) {
+  return getDb().collection(UPLOAD_TOKENS_COLLECTION).doc(token);
+}
+
+// Single ID format for every uploader: token-{uploadId}-{fileIndex}-{suffix}.
+// Stitched outputs use the literal 'stitched' in place of a file index.
+export function uploadTokenId(
+  uploadId: string,
+  fileIndex: number | 'stitched',
+  rng: SeededRandom,
+): string {
+  return `token-${uploadId}-${fileIndex}-${rng.base36(11)}`;
+}
+
+export async function issueUploadToken(opts: {
+  token: string;
+  uploadId: string;
+  fileStoragePath: string;
+  issuedBy: string;
+  attempt?: number;
+  ttlMs?: number;
+  runId?: string;
+}): Promise<string> {
+  const data: UploadTokenData = {
+    fileStoragePath: opts.fileStoragePath,
+    uploadId: opts.uploadId,
+    issuedBy: opts.issuedBy,
+    ...(opts.attempt !== undefined && { attempt: opts.attempt }),
+    dateExpires: admin.firestore.Timestamp.fromDate(
+      new Date(Date.now() + (opts.ttlMs ?? UPLOAD_TOKEN_TTL_MS)),
+    ),
+    isConsumed: false,
+    dateCreated: admin.firestore.FieldValue.serverTimestamp(),
+    correlationId: currentCorrelationId() ?? null,
+    runId: opts.runId ?? null,
+  };
+  await uploadTokenRef(opts.token).set(data);
+  return opts.token;
+}
+
+// Pure check so it can run inside the finalize transaction.
+export function validateUploadToken(
+  tokenData: admin.firestore.DocumentData | undefined,
+  objectName: string,
+  now: Date = new Date(),
+): TokenCheck {
+  if (!tokenData) return 'token-missing';
+  if (tokenData.isConsumed) return 'token-already-consumed';
+  if (tokenData.fileStoragePath !== objectName) return 'token-path-mismatch';
+  if (tokenData.isInvalidated) return 'token-invalidated';
+  const expires = tokenData.dateExpires as admin.firestore.Timestamp | undefined;
+  if (tokenData.isExpired || (expires && expires.toMillis() <= now.getTime())) {
+    return 'token-expired';
+  }
+  return 'valid';
+}
+
+export function consumeUploadToken(
+  tx: admin.firestore.Transaction,
+  token: string,
+  consumer: TokenConsumer,
+): void {
+  tx.update(uploadTokenRef(token), {
+    dateConsumed: admin.firestore.FieldValue.serverTimestamp(),
+    isConsumed: true,
+    consumedBy: consumer,
+  });
+}
+
+// Mark every unconsumed token of the upload invalidated, so objects still
+// finalizing from a cancelled run are rejected. Returns the tokens marked.
+export async function invalidateUploadTokens(
+  uploadId: string,
+  reason: string,
+): Promise<string[]> {
+  const snap = await getDb()
+    .collection(UPLOAD_TOKENS_COLLECTION)
+    .where('uploadId', '==', uploadId)
+    .get();
+  const unused = snap.docs.filter(
+    (d) => d.get('isConsumed') !== true && d.get('isInvalidated') !== true,
+  );
+  if (!unused.length) return [];
+
+  await Promise.all(
+    unused.map((doc) =>
+      doc.ref.update({
+        isInvalidated: true,
+        invalidatedReason: reason,
+        dateInvalidated: admin.firestore.FieldValue.serverTimestamp(),
+      }),
+    ),
+  );
+  logger.info('invalidated upload tokens', { uploadId, reason, count: unused.length });
+  return unused.map((d) => d.id);
+}
+
+export interface ExpiredTokenReport {
+  token: string;
+  uploadId: string | null;
+  fileStoragePath: string;
+  objectExists: boolean;
+  dateExpires: string | null;
+}
+
+// Tokens read per query while sweeping.
+const SWEEP_PAGE_SIZE = 500;
+
+// Find expired, unconsumed tokens and either delete them or mark them
+// isExpired. Reports the storage object each one was issued for.
+export async function sweepExpiredUploadTokens(
+  opts: { mode?: 'delete' | 'mark'; now?: Date; limit?: number } = {},
+): Promise<ExpiredTokenReport[]> {
+  const mode = opts.mode ?? 'mark';
+  const now = admin.firestore.Timestamp.fromDate(opts.now ?? new Date());
+
+  // Range on dateExpires only; isConsumed and isExpired are filtered here to
+  // avoid a composite index. Tokens already marked stay in the range, so page
+  // past them until `limit` new ones are found or the range runs out.
+  const limit = opts.limit ?? 500;
+  const query = getDb()
+    .collection(UPLOAD_TOKENS_COLLECTION)
+    .where('dateExpires', '<=', now)
+    .orderBy('dateExpires')
+    .limit(SWEEP_PAGE_SIZE);
+  const expired: admin.firestore.QueryDocumentSnapshot[] = [];
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
+  while (expired.length < limit) {
+    const page = await (last ? query.startAfter(last) : query).get();
+    expired.push(
+      ...page.docs.filter((d) => d.get('isConsumed') !== true && d.get('isExpired') !== true),
+    );
+    if (page.size < SWEEP_PAGE_SIZE) break;
+    last = page.docs[page.docs.length - 1];
+  }
+  expired.splice(limit);
+
+  const bucket = getBucket();
+  const report = await Promise.all(
+    expired.map(async (doc): Promise<ExpiredTokenReport> => {
+      const fileStoragePath = doc.get('fileStoragePath') as string;
+      const [objectExists] = await bucket.file(fileStoragePath).exists();
+      if (mode === 'delete') {
+        await doc.ref.delete();
+      } else {
+        await doc.ref.update({
+          isExpired: true,
+          dateSwept: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      const expires = doc.get('dateExpires') as admin.firestore.Timestamp;
+      return {
+        token: doc.id,
+        uploadId: doc.get('uploadId') ?? null,
+        fileStoragePath,
+        objectExists,
+        dateExpires: expires?.toDate().toISOString() ?? null,
+      };
+    }),
+  );
+
+  logger.info('swept expired upload tokens', {
+    mode,
+    count: report.length,
+    objects: report.map((r) => ({
+      token: r.token,
+      fileStoragePath: r.fileStoragePath,
+      objectExists: r.objectExists,
+    })),
+  });
+  return report;
+}
@@ -0,0 +1,325 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import admin from 'firebase-admin';
+import { abortable } from './cancellation';
+import { MAX_CLIPS, MAX_PREVIEW_VARIANTS } from './clip-definitions';
+import { s } from './request-schema';
+import type { Schema } from './request-schema';
+import { seededRandom, SeededRandom } from './seeded-random';
+import defaultScenario from '../scenarios/default.json';
+import burst50 from '../scenarios/burst-50.json';
+import linearJitter from '../scenarios/linear-jitter.json';
+import slowFfmpeg from '../scenarios/slow-ffmpeg.json';
+
+// Named scenarios kept in functions/scenarios/. Each file only lists what
+// differs from default.json; pick one with WORKLOAD_SCENARIO or --scenario.
+export const SCENARIO_LIBRARY: Record<string, unknown> = {
+  default: defaultScenario,
+  'linear-jitter': linearJitter,
+  'burst-50': burst50,
+  'slow-ffmpeg': slowFfmpeg,
+};
+
+export const DEFAULT_SCENARIO = 'default';
+
+// How long createDoc waits between creating each upload doc and flipping its
+// generate flag.
+//   burst   all at once, plus up to jitterMs
+//   linear  upload i after i * intervalMs, plus up to jitterMs
+//   random  anywhere in [0, maxMs); `seed` replaces TEST_SEED for the draw
+export type StaggerPattern = 'burst' | 'linear' | 'random';
+
+export interface StaggerSpec {
+  pattern: StaggerPattern;
+  intervalMs: number;
+  jitterMs: number;
+  maxMs: number;
+  seed?: string;
+}
+
+export interface DelayRange {
+  minMs: number;
+  maxMs: number;
+}
+
+// Simulated latency, drawn per unit of work from the seeded streams.
+//   render          before each ffmpeg render task
+//   upload          before each render or preview upload
+//   simulateFfmpeg  /simulate-ffmpeg-processing in the api app
+export interface WorkloadDelays {
+  render?: DelayRange;
+  upload?: DelayRange;
+  simulateFfmpeg?: DelayRange;
+}
+
+export interface WorkloadScenario {
+  name: string;
+  description?: string;
+  uploads: number;
+  stagger: StaggerSpec;
+  clipsPerUpload: number;
+  previewsPerClip: number;
+  rendersPerClip: number;
+  // Overrides the render preset's duration; null keeps the preset's
+  ffmpegDurationSec: number | null;
+  previewPreset?: string;
+  delays: WorkloadDelays;
+}
+
+// The part of a scenario the triggers need, stamped on each upload doc as
+// `workload` (the functions worker never sees the scenario file). Clip count
+// and previews per clip go in the existing `clips` and `previewVariants` fields.
+export interface WorkloadSettings {
+  scenario: string;
+  rendersPerClip: number;
+  ffmpegDurationSec: number | null;
+  delays: WorkloadDelays;
+}
+
+// ffmpeg renders per clip when the upload doc has no `workload`
+export const DEFAULT_RENDERS_PER_CLIP = 3;
+
+export const MAX_UPLOADS = 500;
+export const MAX_RENDERS_PER_CLIP = 9;
+const MAX_DURATION_SEC = 60;
+const MAX_DELAY_MS = 600000;
+const STAGGER_PATTERNS: StaggerPattern[] = ['burst', 'linear', 'random'];
+const DELAY_KEYS: (keyof WorkloadDelays)[] = ['render', 'upload', 'simulateFfmpeg'];
+
+// Request-body forms of the types above, for the internal routes that pass
+// an upload's settings along.
+export const delayRangeSchema: Schema<DelayRange> = s.object({
+  minMs: s.integer({ min: 0, max: MAX_DELAY_MS }),
+  maxMs: s.integer({ min: 0, max: MAX_DELAY_MS }),
+});
+
+export const workloadSettingsSchema: Schema<WorkloadSettings> = s.object({
+  scenario: s.string(),
+  rendersPerClip: s.integer({ min: 1, max: MAX_RENDERS_PER_CLIP }),
+  ffmpegDurationSec: s.nullable(s.number({ min: 0, max: MAX_DURATION_SEC })),
+  delays: s.object({
+    render: s.optional(delayRangeSchema),
+    upload: s.optional(delayRangeSchema),
+    simulateFfmpeg: s.optional(delayRangeSchema),
+  }),
+});
+
+export class WorkloadScenarioError extends Error {
+  constructor(
+    readonly source: string,
+    readonly problems: string[],
+  ) {
+    super(`Invalid workload scenario ${source}: ${problems.join('; ')}`);
+    this.name = 'WorkloadScenarioError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkInt(
+  problems: string[],
+  where: string,
+  value: unknown,
+  min: number,
+  max: number,
+): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    problems.push(`${where} must be an integer ${min}-${max}`);
+  }
+  return value as number;
+}
+
+function checkDelays(problems: string[], where: string, raw: unknown): WorkloadDelays {
+  if (!isObject(raw)) {
+    problems.push(`${where} must be an object`);
+    return {};
+  }
+  const delays: WorkloadDelays = {};
+  for (const [key, range] of Object.entries(raw)) {
+    if (!DELAY_KEYS.includes(key as keyof WorkloadDelays)) {
+      problems.push(`${where}.${key} is not a delay (expected one of ${DELAY_KEYS.join(', ')})`);
+      continue;
+    }
+    if (range === null || range === undefined) continue;
+    if (!isObject(range)) {
+      problems.push(`${where}.${key} must be { minMs, maxMs }`);
+      continue;
+    }
+    const minMs = checkInt(problems, `${where}.${key}.minMs`, range.minMs, 0, MAX_DELAY_MS);
+    const maxMs = checkInt(problems, `${where}.${key}.maxMs`, range.maxMs, 0, MAX_DELAY_MS);
+    if (minMs > maxMs) problems.push(`${where}.${key}.minMs must not exceed maxMs`);
+    delays[key as keyof WorkloadDelays] = { minMs, maxMs };
+  }
+  return delays;
+}
+
+function checkDuration(problems: string[], where: string, value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'number' || !(value > 0) || value > MAX_DURATION_SEC) {
+    problems.push(`${where} must be null or a number of seconds in (0, ${MAX_DURATION_SEC}]`);
+  }
+  return value as number;
+}
+
+// Validate a scenario, filling anything it leaves out from default.json
+// (`stagger` and `delays` are merged key by key).
+export function parseWorkloadScenario(raw: unknown, source: string): WorkloadScenario {
+  if (!isObject(raw)) throw new WorkloadScenarioError(source, ['scenario must be a JSON object']);
+  const base = (source === DEFAULT_SCENARIO ? {} : SCENARIO_LIBRARY[DEFAULT_SCENARIO]) as RawObject;
+  const merged: RawObject = {
+    ...base,
+    ...raw,
+    stagger: { ...(base.stagger as RawObject), ...(raw.stagger as RawObject) },
+    delays: { ...(base.delays as RawObject), ...(raw.delays as RawObject) },
+  };
+  const problems: string[] = [];
+
+  // Name and description belong to the scenario itself, not to default.json
+  const name = raw.name ?? source;
+  if (typeof name !== 'string' || !name) problems.push('name must be a non-empty string');
+
+  const stagger = merged.stagger as RawObject;
+  if (!STAGGER_PATTERNS.includes(stagger.pattern as StaggerPattern)) {
+    problems.push(`stagger.pattern must be one of ${STAGGER_PATTERNS.join(', ')}`);
+  }
+  if (stagger.seed !== undefined && typeof stagger.seed !== 'string') {
+    problems.push('stagger.seed must be a string');
+  }
+
+  const scenario: WorkloadScenario = {
+    name: name as string,
+    ...(typeof raw.description === 'string' && { description: raw.description }),
+    uploads: checkInt(problems, 'uploads', merged.uploads, 1, MAX_UPLOADS),
+    stagger: {
+      pattern: stagger.pattern as StaggerPattern,
+      intervalMs: checkInt(problems, 'stagger.intervalMs', stagger.intervalMs ?? 0, 0, MAX_DELAY_MS),
+      jitterMs: checkInt(problems, 'stagger.jitterMs', stagger.jitterMs ?? 0, 0, MAX_DELAY_MS),
+      maxMs: checkInt(problems, 'stagger.maxMs', stagger.maxMs ?? 0, 0, MAX_DELAY_MS),
+      ...(typeof stagger.seed === 'string' && { seed: stagger.seed }),
+    },
+    clipsPerUpload: checkInt(problems, 'clipsPerUpload', merged.clipsPerUpload, 1, MAX_CLIPS),
+    previewsPerClip: checkInt(
+      problems,
+      'previewsPerClip',
+      merged.previewsPerClip,
+      1,
+      MAX_PREVIEW_VARIANTS,
+    ),
+    rendersPerClip: checkInt(
+      problems,
+      'rendersPerClip',
+      merged.rendersPerClip,
+      1,
+      MAX_RENDERS_PER_CLIP,
+    ),
+    ffmpegDurationSec: checkDuration(problems, 'ffmpegDurationSec', merged.ffmpegDurationSec),
+    delays: checkDelays(problems, 'delays', merged.delays),
+  };
+  if (merged.previewPreset !== undefined) {
+    if (typeof merged.previewPreset !== 'string') problems.push('previewPreset must be a string');
+    else scenario.previewPreset = merged.previewPreset;
+  }
+
+  if (problems.length) throw new WorkloadScenarioError(source, problems);
+  return scenario;
+}
+
+// A library name, or a path to a scenario JSON file. Explicit > WORKLOAD_SCENARIO > default.
+export async function loadWorkloadScenario(ref?: string): Promise<WorkloadScenario> {
+  const key = ref ?? process.env.WORKLOAD_SCENARIO ?? DEFAULT_SCENARIO;
+  if (key in SCENARIO_LIBRARY) return parseWorkloadScenario(SCENARIO_LIBRARY[key], key);
+  if (!key.endsWith('.json')) {
+    throw new WorkloadScenarioError(key, [
+      `unknown scenario (expected one of ${Object.keys(SCENARIO_LIBRARY).join(', ')}, or a .json file)`,
+    ]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(key, 'utf8'));
+  } catch (e) {
+    throw new WorkloadScenarioError(key, [(e as Error).message]);
+  }
+  return parseWorkloadScenario(
+    isObject(raw) && raw.name === undefined ? { ...raw, name: path.basename(key, '.json') } : raw,
+    key,
+  );
+}
+
+export function workloadSettings(scenario: WorkloadScenario): WorkloadSettings {
+  return {
+    scenario: scenario.name,
+    rendersPerClip: scenario.rendersPerClip,
+    ffmpegDurationSec: scenario.ffmpegDurationSec,
+    delays: scenario.delays,
+  };
+}
+
+// Settings for an upload from its `workload` field; uploads created without a
+// scenario get the default fan-out and no extra delays.
+export function readWorkloadSettings(
+  uploadId: string,
+  uploadData: admin.firestore.DocumentData,
+): WorkloadSettings {
+  const raw = uploadData.workload;
+  if (raw === undefined || raw === null) {
+    return {
+      scenario: DEFAULT_SCENARIO,
+      rendersPerClip: DEFAULT_RENDERS_PER_CLIP,
+      ffmpegDurationSec: null,
+      delays: {},
+    };
+  }
+  const source = `uploads/${uploadId}.workload`;
+  if (!isObject(raw)) throw new WorkloadScenarioError(source, ['workload must be an object']);
+
+  const problems: string[] = [];
+  const settings: WorkloadSettings = {
+    scenario: typeof raw.scenario === 'string' ? raw.scenario : DEFAULT_SCENARIO,
+    rendersPerClip: checkInt(
+      problems,
+      'workload.rendersPerClip',
+      raw.rendersPerClip ?? DEFAULT_RENDERS_PER_CLIP,
+      1,
+      MAX_RENDERS_PER_CLIP,
+    ),
+    ffmpegDurationSec: checkDuration(problems, 'workload.ffmpegDurationSec', raw.ffmpegDurationSec),
+    delays: checkDelays(problems, 'workload.delays', raw.delays ?? {}),
+  };
+  if (problems.length) throw new WorkloadScenarioError(source, problems);
+  return settings;
+}
+
+// Wait before flipping upload `index` to generate. `rng` is the upload's own
+// stream; a stagger seed replaces it so the schedule ignores TEST_SEED.
+export function staggerDelayMs(stagger: StaggerSpec, index: number, rng: SeededRandom): number {
+  const draw = stagger.seed !== undefined ? seededRandom(stagger.seed, 'stagger', index) : rng;
+  switch (stagger.pattern) {
+    case 'burst':
+      return draw.int(0, stagger.jitterMs);
+    case 'linear':
+      return index * stagger.intervalMs + draw.int(0, stagger.jitterMs);
+    case 'random':
+      return draw.int(0, stagger.maxMs);
+  }
+}
+
+export function delayMs(range: DelayRange, rng: SeededRandom): number {
+  return range.minMs + rng.next() * (range.maxMs - range.minMs);
+}
+
+// Sleep for a simulated delay (no-op without a range); cancelling the run
+// stops the wait.
+export async function simulateDelay(
+  range: DelayRange | undefined,
+  rng: SeededRandom,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (!range) return;
+  const ms = delayMs(range, rng);
+  await abortable(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+}
@@ -2,15 +2,33 @@
 set -euo pipefail
 
 SEED=12345
+ITERATIONS=100
+PARALLEL=1
 
-# Parse args ( --rebuild already handled later ); support --seed <n> or --seed=n
+# Parse args ( --rebuild already handled later ); support --flag <v> or --flag=v.
+# Runner-only flags (--stop-on-failure, --out-dir, --settle-*, --scenario) are passed through.
 PARSED_ARGS=()
+RUNNER_ARGS=()
 while [[ $# -gt 0 ]]; do
     case "$1" in
         --seed)
             SEED="$2"; shift 2 ;;
         --seed=*)
             SEED="${1#*=}"; shift ;;
+        --iterations)
+            ITERATIONS="$2"; shift 2 ;;
+        --iterations=*)
+            ITERATIONS="${1#*=}"; shift ;;
+        --parallel)
+            PARALLEL="$2"; shift 2 ;;
+        --parallel=*)
+            PARALLEL="${1#*=}"; shift ;;
+        --stop-on-failure)
+            RUNNER_ARGS+=("$1"); shift ;;
+        --out-dir|--settle-quiet-ms|--settle-timeout-ms|--scenario)
+            RUNNER_ARGS+=("$1" "$2"); shift 2 ;;
+        --out-dir=*|--settle-quiet-ms=*|--settle-timeout-ms=*|--scenario=*)
+            RUNNER_ARGS+=("$1"); shift ;;
         --rebuild)
             PARSED_ARGS+=("--rebuild"); shift ;;
         *)
@@ -29,18 +47,18 @@ fi
 SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
 cd "$SCRIPT_DIR"
 
-echo "🧪 Testing for race condition bug (seed=$SEED) - will (re)build createDoc first"
+echo "🧪 Testing for race condition bug (seed=$SEED) - will (re)build raceTest first"
 
 # Build TypeScript (only if needed or if --rebuild passed)
 ROOT_TSCONFIG=tsconfig.json
-OUT_FILE=functions/lib/scripts/createDoc.js
-SRC_FILE=functions/scripts/createDoc.ts
+OUT_FILE=functions/lib/scripts/raceTest.js
+SRC_FILE=functions/scripts/raceTest.ts
 
 if [[ "${1:-}" == "--rebuild" ]]; then
     echo "♻️  Forced rebuild requested"
     npm run build >/dev/null
 elif [[ ! -f "$OUT_FILE" ]]; then
-    echo "📦 No compiled createDoc.js found. Building..."
+    echo "📦 No compiled raceTest.js found. Building..."
     npm run build >/dev/null
 elif [[ "$SRC_FILE" -nt "$OUT_FILE" ]]; then
     echo "🛠  Source newer than build. Rebuilding..."
@@ -61,33 +79,14 @@ export GOOGLE_CLOUD_PROJECT=${GOOGLE_CLOUD_PROJECT:-firebase-cli-emulator-race-c
 export TEST_SEED="$SEED"
 echo "ENV CHECK -> PROJECT=$GOOGLE_CLOUD_PROJECT SEED=$TEST_SEED FIRESTORE_EMULATOR_HOST=${FIRESTORE_EMULATOR_HOST:-unset} FIREBASE_STORAGE_EMULATOR_HOST=${FIREBASE_STORAGE_EMULATOR_HOST:-unset} STORAGE_EMULATOR_HOST=${STORAGE_EMULATOR_HOST:-unset}"
 
-# Deterministic pseudo-random generator (LCG) -> sets global variable _SEED_STATE
-_SEED_STATE=$SEED
-prng_next() {
-    # LCG params (glibc-esque)
-    _SEED_STATE=$(( (1103515245 * _SEED_STATE + 12345) % 2147483648 ))
-    echo $_SEED_STATE
-}
-prng_float() {
-    local v=$(prng_next)
-    # Scale to 0.00 - 1.00 (two decimals) deterministically
-    awk -v val="$v" 'BEGIN { printf "%.2f", (val/2147483648) }'
-}
-
-for i in {1..100}; do
-        echo ""
-        echo "🔄 Iteration $i/100"
-        echo "-------------------"
-
-        # Run the trigger (set both legacy & current env vars for safety)
-        FIRESTORE_EMULATOR_HOST=${FIRESTORE_EMULATOR_HOST:-127.0.0.1:8080} \
-        FIREBASE_STORAGE_EMULATOR_HOST=${FIREBASE_STORAGE_EMULATOR_HOST:-127.0.0.1:9199} \
-        STORAGE_EMULATOR_HOST=${STORAGE_EMULATOR_HOST:-127.0.0.1:9199} \
-        ITERATION=$i \
-        node "$OUT_FILE"
-done
-
-echo ""
-echo "✅ Completed 100 iterations"
-echo "🔍 Check logs above for any 'CRITICAL BUG DETECTED' messages"
-echo "🔍 Also check for Storage events appearing in createBeforeSnapshot logs"
+# The runner drives createDoc in-process, waits for each iteration's triggers to
+# settle, then checks routingAnomalies, uploaded files and consumed tokens.
+# Results land in race-results/summary.json and race-results/junit.xml.
+FIRESTORE_EMULATOR_HOST=${FIRESTORE_EMULATOR_HOST:-127.0.0.1:8080} \
+FIREBASE_STORAGE_EMULATOR_HOST=${FIREBASE_STORAGE_EMULATOR_HOST:-127.0.0.1:9199} \
+STORAGE_EMULATOR_HOST=${STORAGE_EMULATOR_HOST:-127.0.0.1:9199} \
+node "$OUT_FILE" \
+    --iterations "$ITERATIONS" \
+    --parallel "$PARALLEL" \
+    --seed "$SEED" \
+    "${RUNNER_ARGS[@]+"${RUNNER_ARGS[@]}"}"